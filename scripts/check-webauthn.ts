@@ -0,0 +1,107 @@
+// Verifies the recorded WebAuthn responses in scripts/fixtures offline, no database or browser needed.
+// Usage: npm run webauthn:check
+import assert from "assert/strict";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import {
+  WebauthnConfig,
+  verifyAuthentication,
+  verifyRegistration,
+} from "../src/lib/webauthn";
+import registrationFixture from "./fixtures/webauthn-registration.json";
+import authenticationFixture from "./fixtures/webauthn-authentication.json";
+
+// A software authenticator for localhost, registered with counter 0 and asserting with counter 5
+const config: WebauthnConfig = {
+  rpId: registrationFixture.rpId,
+  rpName: "TwofaSecurityApp",
+  origins: [registrationFixture.origin],
+};
+const wrongOriginConfig: WebauthnConfig = {
+  ...config,
+  origins: ["https://evil.example"],
+};
+
+const registration = registrationFixture.response as RegistrationResponseJSON;
+const assertion = authenticationFixture.response as AuthenticationResponseJSON;
+const otherChallenge = Buffer.from("some-other-challenge").toString("base64url");
+
+async function main() {
+  const credential = await verifyRegistration(
+    config,
+    registration,
+    registrationFixture.challenge
+  );
+  assert.equal(credential.credentialId, registration.id);
+  assert.equal(credential.counter, 0);
+  console.log("ok registration verifies");
+
+  await assert.rejects(
+    verifyRegistration(
+      wrongOriginConfig,
+      registration,
+      registrationFixture.challenge
+    ),
+    /Invalid WebAuthn registration: .*origin/
+  );
+  console.log("ok registration from another origin is rejected");
+
+  await assert.rejects(
+    verifyRegistration(config, registration, otherChallenge),
+    /Invalid WebAuthn registration: .*challenge/
+  );
+  console.log("ok registration for another challenge is rejected");
+
+  const newCounter = await verifyAuthentication(
+    config,
+    assertion,
+    authenticationFixture.challenge,
+    credential
+  );
+  assert.equal(newCounter, 5);
+  console.log("ok assertion verifies and moves the counter to 5");
+
+  await assert.rejects(
+    verifyAuthentication(
+      wrongOriginConfig,
+      assertion,
+      authenticationFixture.challenge,
+      credential
+    ),
+    /Invalid WebAuthn assertion: .*origin/
+  );
+  console.log("ok assertion from another origin is rejected");
+
+  await assert.rejects(
+    verifyAuthentication(config, assertion, otherChallenge, credential),
+    /Invalid WebAuthn assertion: .*challenge/
+  );
+  console.log("ok assertion for another challenge is rejected");
+
+  // A stored counter ahead of the response means a cloned or replayed key
+  await assert.rejects(
+    verifyAuthentication(config, assertion, authenticationFixture.challenge, {
+      ...credential,
+      counter: 10,
+    }),
+    /Invalid WebAuthn assertion: .*counter/
+  );
+  console.log("ok assertion with a counter going backwards is rejected");
+
+  // The same response twice does not move the counter either
+  await assert.rejects(
+    verifyAuthentication(config, assertion, authenticationFixture.challenge, {
+      ...credential,
+      counter: newCounter,
+    }),
+    /Invalid WebAuthn assertion: .*counter/
+  );
+  console.log("ok replayed assertion is rejected");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,48 @@
+// Replaces plaintext recovery codes left from before hashing with their HMAC and hint.
+// Usage: npm run recovery-codes:hash [-- --dry-run]
+import mongoose from "mongoose";
+import { connectToDatabase } from "../src/lib/database/connection/mongoose";
+import RecoveryCode from "../src/lib/database/models/recovery-code.model";
+import {
+  hashRecoveryCode,
+  recoveryCodeHint,
+} from "../src/lib/recovery-code-hash";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  await connectToDatabase();
+
+  // The legacy `code` field is no longer in the schema, go through the raw collection
+  const cursor = RecoveryCode.collection.find({ code: { $exists: true } });
+
+  let migrated = 0;
+
+  for await (const recoveryCode of cursor) {
+    if (!dryRun) {
+      await RecoveryCode.collection.updateOne(
+        { _id: recoveryCode._id, code: recoveryCode.code },
+        {
+          $set: {
+            codeHash: hashRecoveryCode(recoveryCode.code),
+            hint: recoveryCodeHint(recoveryCode.code),
+          },
+          $unset: { code: "" },
+        }
+      );
+    }
+
+    migrated++;
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] " : ""}${migrated} recovery code(s) hashed`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
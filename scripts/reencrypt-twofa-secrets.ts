@@ -0,0 +1,66 @@
+// Re-seals every TOTP secret under the current key (TOTP_ENCRYPTION_KEY_VERSION or the newest one).
+// Usage: npm run twofa:reencrypt [-- --dry-run]
+import mongoose from "mongoose";
+import { connectToDatabase } from "../src/lib/database/connection/mongoose";
+import Twofa from "../src/lib/database/models/twofa.model";
+import {
+  getCurrentKeyVersion,
+  openSecret,
+  sealSecret,
+} from "../src/lib/secret-box";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const currentKeyVersion = getCurrentKeyVersion();
+
+  await connectToDatabase();
+
+  // Legacy records have no keyVersion at all
+  const cursor = Twofa.find({
+    $or: [
+      { keyVersion: { $ne: currentKeyVersion } },
+      { keyVersion: { $exists: false } },
+    ],
+  }).cursor();
+
+  let migrated = 0;
+  let failed = 0;
+
+  for await (const twofa of cursor) {
+    try {
+      const plaintext = openSecret(twofa.secret, twofa.keyVersion);
+      const sealed = sealSecret(plaintext);
+
+      if (!dryRun) {
+        // NOTE: Matches on the old value, a record re-enrolled meanwhile is left alone.
+        await Twofa.updateOne(
+          { _id: twofa._id, secret: twofa.secret },
+          sealed
+        );
+      }
+
+      migrated++;
+    } catch (error) {
+      failed++;
+      console.error(
+        `Twofa ${twofa._id}: ${(error as Error)?.message || error}`
+      );
+    }
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] " : ""}${migrated} secret(s) re-encrypted under key ${currentKeyVersion}, ${failed} failed`
+  );
+
+  return failed;
+}
+
+main()
+  .then((failed) => {
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
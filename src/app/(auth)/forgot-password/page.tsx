@@ -0,0 +1,21 @@
+import ForgotPasswordForm from "@/components/forms/ForgotPasswordForm";
+import React from "react";
+
+function ForgotPasswordPage() {
+  return (
+    <div className="flex">
+      <div className="relative hidden lg:block">
+        <img
+          src="/images/auth_large.png"
+          alt="large auth splash image"
+          className="h-screen"
+        />
+      </div>
+      <div className="flex-grow">
+        <ForgotPasswordForm />
+      </div>
+    </div>
+  );
+}
+
+export default ForgotPasswordPage;
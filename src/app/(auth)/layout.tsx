@@ -1,23 +1,13 @@
-"use client";
-
-import React, { useEffect } from "react";
+import React from "react";
 import LoadingIndicator from "@/components/common/LoadingIndicator";
 import { Toaster } from "@/components/ui/toaster";
-import { useRouter } from "next/navigation";
 
+// NOTE: Signed-in visitors are sent to the dashboard by src/middleware.ts before this renders.
 export default function AuthLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const router = useRouter();
-
-  useEffect(() => {
-    if (localStorage.getItem("TOKEN")) {
-      router.push("/home");
-    }
-  }, []);
-
   return (
     <div>
       <LoadingIndicator />
@@ -25,4 +15,4 @@ export default function AuthLayout({
       {children}
     </div>
   );
-}
\ No newline at end of file
+}
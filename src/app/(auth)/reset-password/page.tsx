@@ -0,0 +1,21 @@
+import ResetPasswordForm from "@/components/forms/ResetPasswordForm";
+import React from "react";
+
+function ResetPasswordPage() {
+  return (
+    <div className="flex">
+      <div className="relative hidden lg:block">
+        <img
+          src="/images/auth_large.png"
+          alt="large auth splash image"
+          className="h-screen"
+        />
+      </div>
+      <div className="flex-grow">
+        <ResetPasswordForm />
+      </div>
+    </div>
+  );
+}
+
+export default ResetPasswordPage;
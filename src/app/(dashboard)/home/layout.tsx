@@ -1,22 +1,22 @@
-"use client";
-
-import React, { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import React from "react";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
 import LoadingIndicator from "@/components/common/LoadingIndicator";
 import { Toaster } from "@/components/ui/toaster";
+import { ACCESS_TOKEN_COOKIE } from "@/lib/cookies";
+import { validateToken } from "@/lib/token-status";
+import { isRecoveryCodeRegenerationRequired } from "@/lib/actions/recovery-codes";
 
-export default function DashboardLayout({
+// NOTE: Access is enforced by src/middleware.ts, unauthenticated visitors never reach this layout.
+export default async function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const router = useRouter();
-
-  useEffect(() => {
-    if (!localStorage.getItem("TOKEN")) {
-      router.push("/login");
-    }
-  }, []);
+  // Once the last recovery code is gone, new codes come before the dashboard
+  if (await mustRegenerateRecoveryCodes()) {
+    redirect("/recovery-codes/regenerate");
+  }
 
   return (
     <div>
@@ -25,4 +25,17 @@ export default function DashboardLayout({
       {children}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// An expired access token is renewed client side, the dashboard then re-checks the status itself
+async function mustRegenerateRecoveryCodes(): Promise<boolean> {
+  const token = cookies().get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!token) return false;
+
+  try {
+    const { userId } = await validateToken(token);
+    return await isRecoveryCodeRegenerationRequired(userId);
+  } catch (error) {
+    return false;
+  }
+}
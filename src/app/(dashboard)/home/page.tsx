@@ -1,13 +1,19 @@
 "use client";
 
+import ActiveSessionsSection from "@/components/sections/ActiveSessionsSection";
 import DashboardContentSection from "@/components/sections/DashboardContentSection";
+import NotificationsSection from "@/components/sections/NotificationsSection";
+import TrustedDevicesSection from "@/components/sections/TrustedDevicesSection";
+import makeApiCallService from "@/service/apiService";
 import { useRouter } from "next/navigation";
 import React from "react";
 
 function Dashboard() {
   const router = useRouter();
-  const handleLogout = () => {
-    localStorage.clear();
+  const handleLogout = async () => {
+    await makeApiCallService("/api/logout", {
+      method: "POST",
+    });
     router.replace("/login");
   };
   return (
@@ -36,7 +42,10 @@ function Dashboard() {
         </div>
       </div>
 
+      <NotificationsSection />
       <DashboardContentSection />
+      <ActiveSessionsSection />
+      <TrustedDevicesSection />
     </div>
   );
 }
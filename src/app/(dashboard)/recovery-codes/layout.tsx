@@ -0,0 +1,18 @@
+import React from "react";
+import LoadingIndicator from "@/components/common/LoadingIndicator";
+import { Toaster } from "@/components/ui/toaster";
+
+// NOTE: Access is enforced by src/middleware.ts, unauthenticated visitors never reach this layout.
+export default function RecoveryCodesLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <LoadingIndicator />
+      <Toaster />
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Copy } from "lucide-react";
+import CopyToClipboard from "react-copy-to-clipboard";
+import MainButton from "@/components/common/MainButton";
+import RecoveryCode from "@/components/common/RecoveryCode";
+import RecoveryKitDownload from "@/components/common/RecoveryKitDownload";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import makeApiCallService from "@/service/apiService";
+import { ReauthModal } from "@/components/modals/ReauthModal";
+import {
+  IReauthRequired,
+  IRecoveryCode,
+  IRecoveryCodesResponse,
+} from "@/types";
+
+// NOTE: Forced step once the last recovery code is used, the dashboard redirects here until it is done.
+function RegenerateRecoveryCodes() {
+  const router = useRouter();
+  const [recoveryCodes, setRecoveryCodes] = useState<IRecoveryCode[] | null>(
+    null
+  );
+  const [generating, setGenerating] = useState(false);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [copy, setCopy] = useState(false);
+  const [reauth, setReauth] = useState<IReauthRequired | null>(null);
+
+  const generateRecoveryCodes = async () => {
+    setGenerating(true);
+    const response = await makeApiCallService<IRecoveryCodesResponse>(
+      "/api/recovery-codes",
+      {
+        method: "POST",
+        onReauthRequired: setReauth,
+      }
+    );
+    setRecoveryCodes(response?.response?.data || null);
+    setGenerating(false);
+  };
+
+  const acknowledgeRecoveryCodes = async () => {
+    setAcknowledging(true);
+    const response = await makeApiCallService(
+      "/api/recovery-codes/acknowledge",
+      {
+        method: "POST",
+      }
+    );
+    setAcknowledging(false);
+
+    if (response) {
+      router.replace("/home");
+    }
+  };
+
+  return (
+    <div className="mx-4 md:mx-16 mt-16 pb-16 flex flex-col items-center">
+      <section className="max-w-[60rem] w-full">
+        <div className="text-2xl md:text-[2rem] font-bold text-[#2B3A4B]">
+          Generate new recovery codes
+        </div>
+        <Alert className="text-orange-500 mt-8">
+          <AlertCircle className="h-4 w-4 " color="rgb(249 115 22)" />
+          <AlertDescription>
+            You have used your last recovery code. Generate a new set and store
+            it somewhere safe before continuing to your dashboard.
+          </AlertDescription>
+        </Alert>
+
+        {!recoveryCodes?.length ? (
+          <div className="mt-8">
+            <MainButton
+              text="Generate new codes"
+              dataLoadingText="Generating codes..."
+              classes="!h-[3rem]"
+              action={generateRecoveryCodes}
+              isLoading={generating}
+            />
+          </div>
+        ) : (
+          <>
+            <RecoveryCode recoveryCodes={recoveryCodes} ignoreBadge />
+            <div className="mt-4">
+              <CopyToClipboard
+                text={recoveryCodes.map((code) => code.code).join("\n")}
+                onCopy={() => setCopy(true)}
+              >
+                <div>
+                  <MainButton
+                    text={!copy ? "Copy" : "Copied!"}
+                    iconComponent={<Copy className="w-4 h-4" />}
+                    classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
+                  />
+                </div>
+              </CopyToClipboard>
+            </div>
+            {recoveryCodes[0]?.batchId ? (
+              <div className="mt-4">
+                <RecoveryKitDownload batchId={recoveryCodes[0].batchId} />
+              </div>
+            ) : (
+              ""
+            )}
+            <label className="flex items-center gap-2 mt-8 text-[#2B3A4B] cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={saved}
+                onChange={(e) => setSaved(e.target.checked)}
+              />
+              I have saved these recovery codes somewhere safe
+            </label>
+            <div className="mt-8">
+              <MainButton
+                text="Continue to dashboard"
+                dataLoadingText="Saving..."
+                classes="!h-[3rem]"
+                action={acknowledgeRecoveryCodes}
+                isLoading={acknowledging}
+                disabled={!saved}
+              />
+            </div>
+          </>
+        )}
+      </section>
+      <ReauthModal
+        reauth={reauth}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          setReauth(null);
+          generateRecoveryCodes();
+        }}
+      />
+    </div>
+  );
+}
+
+export default RegenerateRecoveryCodes;
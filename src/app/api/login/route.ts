@@ -1,6 +1,16 @@
 import { loginUser } from "@/lib/actions/user";
-import { error_response, success_response } from "@/lib/utils";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
 import { LoginUserInputValidation } from "@/lib/validations";
+import {
+  TRUSTED_DEVICE_COOKIE,
+  getCookie,
+  setAuthCookies,
+} from "@/lib/cookies";
 
 export async function POST(req: Request) {
   try {
@@ -57,21 +67,53 @@ export async function POST(req: Request) {
       );
     }
 
-    // Attempt login
-    const loginResult = await loginUser(email, password);
+    // Attempt login, a remembered browser may skip the second factor
+    const loginResult = await loginUser(
+      email,
+      password,
+      getClientInfo(req),
+      getCookie(req, TRUSTED_DEVICE_COOKIE)
+    );
     
     // Check if login was successful
-    if (!loginResult || !loginResult.token) {
+    if (!loginResult || !(loginResult.token || loginResult.challengeToken)) {
       return error_response("Invalid credentials", 401);
     }
 
+    // Second factor pending, the client has to trade the challenge at /api/login/verify
+    if (loginResult.mfaRequired) {
+      console.log("Password accepted, 2FA challenge issued");
+
+      return success_response(
+        loginResult,
+        "Two-factor authentication required",
+        200
+      );
+    }
+
     console.log("Login successful, token generated");
-    
-    return success_response(loginResult, "User login successful", 200);
+
+    // Tokens travel in HttpOnly cookies only, never in the JSON body
+    const response = success_response(
+      { mfaRequired: false },
+      "User login successful",
+      200
+    );
+    setAuthCookies(response, loginResult);
+
+    return response;
     
   } catch (err) {
     console.error("Login API error:", err);
     
+    // Rate limiting errors
+    if ((err as any)?.name === 'TooManyRequestsError') {
+      return too_many_requests_response(
+        "Too many login attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
     // Handle specific error types
     if ((err as any)?.name === 'ValidationError') {
       return error_response("Validation failed", 400);
@@ -94,11 +136,6 @@ export async function POST(req: Request) {
       return error_response("Database connection failed", 503);
     }
     
-    // Rate limiting errors
-    if ((err as any)?.name === 'TooManyRequestsError') {
-      return error_response("Too many login attempts. Please try again later.", 429);
-    }
-    
     // Generic error fallback
     const errorMessage = (err as any)?.message || "Internal server error";
     const statusCode = (err as any)?.statusCode || 500;
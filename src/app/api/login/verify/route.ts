@@ -0,0 +1,110 @@
+import { verifyLoginChallenge } from "@/lib/actions/user";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { setAuthCookies } from "@/lib/cookies";
+
+//NOTE: VerifyLoginChallenge
+export async function POST(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    // Check if body exists and has required structure
+    if (!body || typeof body !== "object") {
+      return error_response("Request body must be a valid JSON object", 400);
+    }
+
+    const { challengeToken, token, rememberDevice } = body;
+
+    if (!challengeToken) {
+      return error_response("Login challenge is required", 400);
+    }
+
+    if (!token) {
+      return error_response("2FA token is required", 400);
+    }
+
+    // Validate 2FA token format (6 or 8 digits depending on the enrollment)
+    if (!/^(\d{6}|\d{8})$/.test(token)) {
+      return error_response("2FA token must be 6 or 8 digits", 400);
+    }
+
+    const loginResult = await verifyLoginChallenge(
+      challengeToken,
+      token,
+      getClientInfo(req),
+      rememberDevice === true
+    );
+
+    if (!loginResult || !loginResult.token) {
+      return error_response("Invalid or expired 2FA token", 401);
+    }
+
+    console.log("2FA challenge completed, token generated");
+
+    const response = success_response(
+      { mfaRequired: false },
+      "User login successful",
+      200
+    );
+    setAuthCookies(response, loginResult);
+
+    return response;
+  } catch (err) {
+    console.error("POST /api/login/verify error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("challenge")) {
+      return error_response("Login challenge is invalid or has expired", 401);
+    }
+
+    if (
+      (err as any)?.message?.includes("Invalid") ||
+      (err as any)?.message?.includes("expired")
+    ) {
+      return error_response("Invalid or expired 2FA token", 401);
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "2FA verification failed",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
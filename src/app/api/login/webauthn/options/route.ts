@@ -0,0 +1,79 @@
+import { startLoginWebauthn } from "@/lib/actions/user";
+import {
+  error_response,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+
+//NOTE: StartLoginWebauthn
+export async function POST(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    // Check if body exists and has required structure
+    if (!body || typeof body !== "object") {
+      return error_response("Request body must be a valid JSON object", 400);
+    }
+
+    const { challengeToken } = body;
+
+    // The challenge is only issued by /api/login once the password matched
+    if (!challengeToken) {
+      return error_response("Login challenge is required", 400);
+    }
+
+    const options = await startLoginWebauthn(challengeToken);
+
+    return success_response(options, "Security key challenge issued", 200);
+  } catch (err) {
+    console.error("POST /api/login/webauthn/options error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("No security keys")) {
+      return error_response("No security keys registered", 404);
+    }
+
+    if ((err as any)?.message?.includes("challenge")) {
+      return error_response("Login challenge is invalid or has expired", 401);
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to start security key sign-in",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,106 @@
+import { verifyLoginWebauthn } from "@/lib/actions/user";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { setAuthCookies } from "@/lib/cookies";
+
+//NOTE: VerifyLoginWebauthn
+export async function POST(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    // Check if body exists and has required structure
+    if (!body || typeof body !== "object") {
+      return error_response("Request body must be a valid JSON object", 400);
+    }
+
+    const { challengeToken, credential, rememberDevice } = body;
+
+    if (!challengeToken) {
+      return error_response("Login challenge is required", 400);
+    }
+
+    if (!credential || typeof credential !== "object") {
+      return error_response("Security key response is required", 400);
+    }
+
+    const loginResult = await verifyLoginWebauthn(
+      challengeToken,
+      credential,
+      getClientInfo(req),
+      rememberDevice === true
+    );
+
+    if (!loginResult || !loginResult.token) {
+      return error_response("Security key verification failed", 401);
+    }
+
+    console.log("2FA challenge completed with a security key, token generated");
+
+    const response = success_response(
+      { mfaRequired: false },
+      "User login successful",
+      200
+    );
+    setAuthCookies(response, loginResult);
+
+    return response;
+  } catch (err) {
+    console.error("POST /api/login/webauthn error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    // Checked before the login challenge, the ceremony has a challenge of its own
+    if (
+      (err as any)?.message?.includes("WebAuthn") ||
+      (err as any)?.message?.includes("No security keys")
+    ) {
+      return error_response("Security key verification failed", 401);
+    }
+
+    if ((err as any)?.message?.includes("challenge")) {
+      return error_response("Login challenge is invalid or has expired", 401);
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "Security key verification failed",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
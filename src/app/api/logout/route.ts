@@ -0,0 +1,65 @@
+import { endSession } from "@/lib/actions/session";
+import { revokeToken } from "@/lib/actions/revoked-tokens";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearAuthCookies,
+  getAuthToken,
+  getCookie,
+  verifyCsrf,
+} from "@/lib/cookies";
+
+//NOTE: Logout
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    // Kill the access token right away instead of waiting for its expiry
+    const accessToken = getAuthToken(req);
+    if (accessToken) {
+      try {
+        await revokeToken(await validateToken(accessToken));
+      } catch (tokenError) {
+        // Already expired or revoked, nothing left to kill
+      }
+    }
+
+    const refreshToken = getCookie(req, REFRESH_TOKEN_COOKIE);
+
+    if (refreshToken) {
+      await endSession(refreshToken);
+    }
+
+    // Cookies are cleared even when the session was already gone
+    const response = success_response(null, "Logged out successfully", 200);
+    clearAuthCookies(response);
+
+    return response;
+  } catch (err) {
+    console.error("POST /api/logout error:", err);
+
+    const response = error_response(
+      (err as any)?.message || "Failed to log out",
+      500
+    );
+    clearAuthCookies(response);
+
+    return response;
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
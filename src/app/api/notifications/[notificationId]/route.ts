@@ -0,0 +1,67 @@
+import { markNotificationRead } from "@/lib/actions/notifications";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+//NOTE: MarkNotificationRead
+export async function PUT(
+  req: Request,
+  { params }: { params: { notificationId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid token: missing user ID", 401);
+    }
+
+    if (!/^[a-f0-9]{24}$/.test(params.notificationId)) {
+      return error_response("Invalid notification id", 400);
+    }
+
+    await markNotificationRead(validatedToken.userId, params.notificationId);
+
+    return success_response(null, "Notification marked as read", 200);
+  } catch (err) {
+    console.error("PUT /api/notifications/[notificationId] error:", err);
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Notification not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to update notification",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "PUT, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { getUnreadNotifications } from "@/lib/actions/notifications";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken } from "@/lib/cookies";
+
+//NOTE: GetUnreadNotifications
+export async function GET(req: Request) {
+  try {
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid or expired token", 401);
+    }
+
+    const notifications = await getUnreadNotifications(validatedToken.userId);
+
+    return success_response(
+      notifications,
+      "Notifications fetched successfully",
+      200
+    );
+  } catch (err) {
+    console.error("GET /api/notifications error:", err);
+
+    return error_response(
+      (err as any)?.message || "Failed to fetch notifications",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,163 @@
+import {
+  requestPasswordReset,
+  resetPassword,
+} from "@/lib/actions/password-reset";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import {
+  RequestPasswordResetInputValidation,
+  ResetPasswordInputValidation,
+} from "@/lib/validations";
+import { clearAuthCookies } from "@/lib/cookies";
+
+//NOTE: RequestPasswordReset
+export async function POST(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const inputValidation = RequestPasswordResetInputValidation.safeParse(body);
+    if (!inputValidation.success) {
+      return error_response(
+        "Enter a valid email",
+        400,
+        inputValidation.error.format()
+      );
+    }
+
+    await requestPasswordReset(inputValidation.data.email, getClientInfo(req));
+
+    // Same answer for unknown addresses, the form is not an account oracle
+    return success_response(
+      null,
+      "If an account exists for this email, a reset link is on its way",
+      200
+    );
+  } catch (err) {
+    console.error("POST /api/password-reset error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many reset requests. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response("Failed to send the reset link", 500);
+  }
+}
+
+//NOTE: ResetPassword
+export async function PUT(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const inputValidation = ResetPasswordInputValidation.safeParse(body);
+    if (!inputValidation.success) {
+      const errorMessages = inputValidation.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+
+      return error_response(
+        `Input validation failed: ${errorMessages}`,
+        400,
+        inputValidation.error.format()
+      );
+    }
+
+    const { resetToken, password, token, smsCode, recoveryCode } =
+      inputValidation.data;
+
+    await resetPassword(
+      resetToken,
+      password,
+      { token, smsCode, recoveryCode },
+      getClientInfo(req)
+    );
+
+    console.log("Password reset completed");
+
+    // Every session was revoked, this browser included
+    const response = success_response(
+      null,
+      "Password reset, sign in with your new password",
+      200
+    );
+    clearAuthCookies(response);
+
+    return response;
+  } catch (err) {
+    console.error("PUT /api/password-reset error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("reset link")) {
+      return error_response("The reset link is invalid or has expired", 400);
+    }
+
+    if (
+      (err as any)?.message?.includes("Invalid OTP") ||
+      (err as any)?.message?.includes("SMS code") ||
+      (err as any)?.message?.includes("recovery code")
+    ) {
+      return error_response((err as any).message, 401);
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to reset password",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, PUT, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { sendPasswordResetSmsOtp } from "@/lib/actions/password-reset";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+
+//NOTE: SendPasswordResetSmsOtp
+export async function POST(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    // Check if body exists and has required structure
+    if (!body || typeof body !== "object") {
+      return error_response("Request body must be a valid JSON object", 400);
+    }
+
+    const { resetToken } = body;
+
+    // Only the holder of a live reset link can get a code texted
+    if (!resetToken || typeof resetToken !== "string") {
+      return error_response("Reset link is required", 400);
+    }
+
+    const sentTo = await sendPasswordResetSmsOtp(
+      resetToken,
+      getClientInfo(req)
+    );
+
+    return success_response({ sentTo }, "Verification code sent", 200);
+  } catch (err) {
+    console.error("POST /api/password-reset/sms/send error:", err);
+
+    // Covers the OTP lockout, the resend cooldown and the SMS volume limits
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        (err as any).message,
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("No phone number")) {
+      return error_response("No phone number enrolled for this account", 409);
+    }
+
+    if ((err as any)?.message?.includes("reset link")) {
+      return error_response("The reset link is invalid or has expired", 400);
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to send verification code",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { getPasswordResetChallenge } from "@/lib/actions/password-reset";
+import { error_response, success_response } from "@/lib/utils";
+
+//NOTE: GetPasswordResetChallenge
+export async function POST(req: Request) {
+  try {
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const { resetToken } = body || {};
+
+    if (!resetToken || typeof resetToken !== "string") {
+      return error_response("Reset link is required", 400);
+    }
+
+    // The link stays usable, this only tells the form what to ask for
+    const challenge = await getPasswordResetChallenge(resetToken);
+
+    return success_response(challenge, "Reset link is valid", 200);
+  } catch (err) {
+    console.error("POST /api/password-reset/verify error:", err);
+
+    if ((err as any)?.message?.includes("reset link")) {
+      return error_response("The reset link is invalid or has expired", 400);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to check the reset link",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -1,18 +1,24 @@
-import { getUserById } from "@/lib/actions/user";
-import { error_response, success_response, validateToken } from "@/lib/utils";
+import { changePassword, getUserById } from "@/lib/actions/user";
+import { revokeAllUserTokens } from "@/lib/actions/revoked-tokens";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+import { ChangePasswordInputValidation } from "@/lib/validations";
 
 export async function GET(req: Request) {
   try {
-    const token = req.headers.get("Authorization");
+    const token = getAuthToken(req);
     
     // Check if token exists
     if (!token) {
       return error_response("Authorization token is required", 401);
     }
 
-    // Log token format for debugging (remove in production)
-    console.log("Token received:", token.startsWith("Bearer ") ? "Bearer format" : "Raw token format");
-
     let validatedToken;
     
     try {
@@ -94,14 +100,107 @@ export async function GET(req: Request) {
   }
 }
 
+//NOTE: ChangePassword
+export async function PUT(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid token: missing user ID", 401);
+    }
+
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error("JSON parsing error:", parseError);
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    // Zod validation
+    const inputValidation = ChangePasswordInputValidation.safeParse(body);
+    if (!inputValidation.success) {
+      const errorMessages = inputValidation.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join(", ");
+
+      return error_response(
+        `Input validation failed: ${errorMessages}`,
+        400,
+        inputValidation.error.format()
+      );
+    }
+
+    await changePassword(
+      validatedToken.userId,
+      inputValidation.data.currentPassword,
+      inputValidation.data.newPassword,
+      getClientInfo(req)
+    );
+
+    // Every token minted with the old password dies, this device keeps its session
+    await revokeAllUserTokens(validatedToken.userId, "password_changed", {
+      keepSessionId: validatedToken.sid,
+    });
+
+    console.log("Password changed for user:", validatedToken.userId);
+
+    return success_response(null, "Password changed successfully", 200);
+  } catch (err) {
+    console.error("PUT /api/profile error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("Current password")) {
+      return error_response("Current password is incorrect", 400);
+    }
+
+    // Database connection errors
+    if ((err as any)?.code === 'ECONNREFUSED' || (err as any)?.name === 'ConnectionError') {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to change password",
+      500
+    );
+  }
+}
+
 // Optional: Add OPTIONS method for CORS support
 export async function OPTIONS(req: Request) {
   return new Response(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-CSRF-Token',
     },
   });
 }
\ No newline at end of file
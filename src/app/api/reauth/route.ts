@@ -0,0 +1,109 @@
+import { reauthenticateUser } from "@/lib/actions/user";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+//NOTE: Reauthenticate
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId || !validatedToken?.sid) {
+      return error_response("Invalid or expired token", 401);
+    }
+
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const { password, token: twofaToken, smsCode } = body || {};
+
+    if (!password) {
+      return error_response("Password is required", 400);
+    }
+
+    // Validate 2FA token format (6 or 8 digits depending on the enrollment)
+    if (twofaToken && !/^(\d{6}|\d{8})$/.test(twofaToken)) {
+      return error_response("2FA token must be 6 or 8 digits", 400);
+    }
+
+    if (smsCode && !/^\d{6}$/.test(smsCode)) {
+      return error_response("SMS code must be 6 digits", 400);
+    }
+
+    const stepUpExpiresAt = await reauthenticateUser(
+      validatedToken.userId,
+      validatedToken.sid,
+      password,
+      { token: twofaToken, smsCode },
+      getClientInfo(req)
+    );
+
+    console.log("Step-up completed for user:", validatedToken.userId);
+
+    return success_response(
+      { stepUpExpiresAt },
+      "Identity confirmed",
+      200
+    );
+  } catch (err) {
+    console.error("POST /api/reauth error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    // 400 rather than 401, a wrong password here must not look like an expired session
+    if ((err as any)?.message?.includes("Invalid")) {
+      return error_response("Invalid password or authentication code", 400);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to confirm identity",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { acknowledgeRecoveryCodes } from "@/lib/actions/recovery-codes";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+//NOTE: AcknowledgeRecoveryCodes
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid or expired token", 401);
+    }
+
+    await acknowledgeRecoveryCodes(validatedToken.userId);
+
+    console.log("Recovery codes acknowledged for user:", validatedToken.userId);
+
+    return success_response(
+      { acknowledged: true },
+      "Recovery codes acknowledged",
+      200
+    );
+  } catch (err) {
+    console.error("POST /api/recovery-codes/acknowledge error:", err);
+
+    if ((err as any)?.message?.includes("Generate new recovery codes")) {
+      return error_response((err as any).message, 409);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to acknowledge recovery codes",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,138 @@
+import { getRecoveryKit } from "@/lib/actions/recovery-codes";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  MIN_RECOVERY_KIT_PASSPHRASE_LENGTH,
+  RECOVERY_KIT_FORMATS,
+  RecoveryKitFormat,
+  encryptRecoveryKit,
+  renderRecoveryKit,
+} from "@/lib/recovery-kit";
+import {
+  error_response,
+  reauth_required_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+//NOTE: ExportRecoveryCodes
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid or expired token", 401);
+    }
+
+    let body;
+
+    // Safely parse JSON body
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const { batchId, format, passphrase } = body || {};
+
+    if (!batchId || typeof batchId !== "string") {
+      return error_response("Batch id is required", 400);
+    }
+
+    if (!RECOVERY_KIT_FORMATS.includes(format)) {
+      return error_response(
+        `Format must be one of ${RECOVERY_KIT_FORMATS.join(", ")}`,
+        400
+      );
+    }
+
+    if (
+      passphrase !== undefined &&
+      passphrase !== "" &&
+      (typeof passphrase !== "string" ||
+        passphrase.length < MIN_RECOVERY_KIT_PASSPHRASE_LENGTH)
+    ) {
+      return error_response(
+        `Passphrase must be at least ${MIN_RECOVERY_KIT_PASSPHRASE_LENGTH} characters`,
+        400
+      );
+    }
+
+    await assertRecentStepUp(validatedToken.userId, validatedToken.sid);
+
+    const recoveryKit = await getRecoveryKit(validatedToken.userId, batchId);
+
+    let rendered = renderRecoveryKit(recoveryKit, format as RecoveryKitFormat);
+    if (passphrase) {
+      rendered = await encryptRecoveryKit(rendered, passphrase);
+    }
+
+    console.log(
+      "Recovery kit exported for user:",
+      validatedToken.userId,
+      format,
+      passphrase ? "encrypted" : "plain"
+    );
+
+    return new Response(rendered.body, {
+      status: 200,
+      headers: {
+        "Content-Type": rendered.contentType,
+        "Content-Disposition": `attachment; filename="${rendered.filename}"`,
+        "Content-Length": String(rendered.body.length),
+        // Plaintext codes, never let a proxy or the browser keep a copy
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("POST /api/recovery-codes/export error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.message?.includes("not found or expired")) {
+      return error_response((err as any).message, 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to export recovery codes",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -1,28 +1,56 @@
 import {
   bulkCreateRecoveryCodes,
   getAllUserRecoveryCodes,
-  getRecoveryCodeForSignin,
 } from "@/lib/actions/recovery-codes";
-import { error_response, success_response, validateToken } from "@/lib/utils";
+import { revokeAllUserTokens } from "@/lib/actions/revoked-tokens";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  error_response,
+  reauth_required_response,
+  success_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
 
 //NOTE: BulkCreateRecoveryCodes
 export async function POST(req: Request) {
   try {
-    const token = req.headers.get("Authorization");
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
     
     // Check if token exists
     if (!token) {
       return error_response("Authorization token is required", 401);
     }
 
-    const validatedToken = await validateToken(token);
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
     
     // Check if token validation succeeded
     if (!validatedToken || !validatedToken.userId) {
       return error_response("Invalid or expired token", 401);
     }
 
+    // Generating wipes the current codes, ask for a fresh password and TOTP check
+    await assertRecentStepUp(validatedToken.userId, validatedToken.sid);
+
     const twofa = await bulkCreateRecoveryCodes(validatedToken.userId);
+
+    // Regenerating codes is a credential reset, revoke everything but this session
+    await revokeAllUserTokens(
+      validatedToken.userId,
+      "recovery_codes_regenerated",
+      { keepSessionId: validatedToken.sid }
+    );
     
     return success_response(
       twofa,
@@ -31,6 +59,16 @@ export async function POST(req: Request) {
     );
   } catch (err) {
     console.error("POST /api/recovery-codes error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
     
     // Handle specific error types
     if ((err as any)?.name === 'ValidationError') {
@@ -48,71 +86,31 @@ export async function POST(req: Request) {
   }
 }
 
-//NOTE: GetRecoveryCodeForSignin
-export async function PUT(req: Request) {
-  try {
-    let body;
-    
-    // Safely parse JSON body
-    try {
-      body = await req.json();
-    } catch (parseError) {
-      return error_response("Invalid JSON in request body", 400);
-    }
-
-    // Validate required fields
-    if (!body?.email || !body?.code) {
-      return error_response("Email and recovery code are required", 400);
-    }
-
-    // Validate email format (basic validation)
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(body.email)) {
-      return error_response("Invalid email format", 400);
-    }
-
-    const recoveryCode = await getRecoveryCodeForSignin(
-      body.email,
-      body.code
-    );
-
-    return success_response(
-      recoveryCode,
-      "Recovery code status fetched successfully",
-      200
-    );
-  } catch (err) {
-    console.error("PUT /api/recovery-codes error:", err);
-    
-    // Handle specific database errors
-    if ((err as any)?.code === 'P2025') { // Prisma not found error
-      return error_response("Recovery code not found", 404);
-    }
-    
-    return error_response(
-      (err as any)?.message || "Internal server error", 
-      500
-    );
-  }
-}
-
 //NOTE: GetAllUserRecoveryCodes
 export async function GET(req: Request) {
   try {
-    const token = req.headers.get("Authorization");
+    const token = getAuthToken(req);
     
     // Check if token exists
     if (!token) {
       return error_response("Authorization token is required", 401);
     }
 
-    const validatedToken = await validateToken(token);
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
     
     // Check if token validation succeeded
     if (!validatedToken || !validatedToken.userId) {
       return error_response("Invalid or expired token", 401);
     }
 
+    await assertRecentStepUp(validatedToken.userId, validatedToken.sid);
+
     const recoveryCodes = await getAllUserRecoveryCodes(validatedToken.userId);
     
     return success_response(
@@ -122,6 +120,16 @@ export async function GET(req: Request) {
     );
   } catch (err) {
     console.error("GET /api/recovery-codes error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
     
     // Handle specific error types
     if ((err as any)?.name === 'ValidationError') {
@@ -141,8 +149,8 @@ export async function OPTIONS(req: Request) {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-CSRF-Token',
     },
   });
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { revokeSession } from "@/lib/actions/session";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+//NOTE: RevokeSession
+export async function DELETE(
+  req: Request,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid token: missing user ID", 401);
+    }
+
+    if (!/^[a-f0-9]{24}$/.test(params.sessionId)) {
+      return error_response("Invalid session id", 400);
+    }
+
+    await revokeSession(validatedToken.userId, params.sessionId);
+
+    console.log("Session revoked for user:", validatedToken.userId);
+
+    return success_response(
+      { current: params.sessionId === validatedToken.sid },
+      "Session revoked successfully",
+      200
+    );
+  } catch (err) {
+    console.error("DELETE /api/sessions/[sessionId] error:", err);
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Session not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to revoke session",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,97 @@
+import {
+  getActiveUserSessions,
+  revokeOtherSessions,
+} from "@/lib/actions/session";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateSessionToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken?.userId || !validatedToken?.sid) {
+    throw new Error("Invalid token: missing session");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: GetActiveUserSessions
+export async function GET(req: Request) {
+  try {
+    const { userId, sessionId } = await validateSessionToken(req);
+
+    const sessions = await getActiveUserSessions(userId, sessionId);
+
+    return success_response(sessions, "Sessions fetched successfully", 200);
+  } catch (err) {
+    console.error("GET /api/sessions error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to fetch sessions",
+      500
+    );
+  }
+}
+
+//NOTE: RevokeOtherSessions ("sign out everywhere else")
+export async function DELETE(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateSessionToken(req);
+
+    const revokedCount = await revokeOtherSessions(userId, sessionId);
+
+    console.log(`Revoked ${revokedCount} other session(s) for user:`, userId);
+
+    return success_response(
+      { revoked: revokedCount },
+      "Signed out of all other sessions",
+      200
+    );
+  } catch (err) {
+    console.error("DELETE /api/sessions error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to revoke sessions",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,73 @@
+import { refreshSession } from "@/lib/actions/session";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+} from "@/lib/utils";
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearAuthCookies,
+  getCookie,
+  setAuthCookies,
+  verifyCsrf,
+} from "@/lib/cookies";
+
+//NOTE: RefreshSession
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const refreshToken = getCookie(req, REFRESH_TOKEN_COOKIE);
+
+    if (!refreshToken) {
+      return error_response("Refresh token is required", 401);
+    }
+
+    const tokens = await refreshSession(refreshToken, getClientInfo(req));
+
+    const response = success_response(
+      { refreshed: true },
+      "Token refreshed successfully",
+      200
+    );
+    setAuthCookies(response, tokens);
+
+    return response;
+  } catch (err) {
+    console.error("POST /api/token/refresh error:", err);
+
+    if ((err as any)?.message?.includes("refresh token")) {
+      const response = error_response("Invalid or expired refresh token", 401);
+      clearAuthCookies(response);
+      return response;
+    }
+
+    // Database connection errors
+    if (
+      (err as any)?.code === "ECONNREFUSED" ||
+      (err as any)?.name === "ConnectionError"
+    ) {
+      return error_response("Database connection failed", 503);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to refresh token",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { revokeTrustedDevice } from "@/lib/actions/trusted-devices";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import {
+  TRUSTED_DEVICE_COOKIE,
+  clearTrustedDeviceCookie,
+  getAuthToken,
+  getCookie,
+  verifyCsrf,
+} from "@/lib/cookies";
+
+//NOTE: RevokeTrustedDevice
+export async function DELETE(
+  req: Request,
+  { params }: { params: { deviceId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid token: missing user ID", 401);
+    }
+
+    if (!/^[a-f0-9]{24}$/.test(params.deviceId)) {
+      return error_response("Invalid device id", 400);
+    }
+
+    const current = await revokeTrustedDevice(
+      validatedToken.userId,
+      params.deviceId,
+      getCookie(req, TRUSTED_DEVICE_COOKIE)
+    );
+
+    console.log("Trusted device revoked for user:", validatedToken.userId);
+
+    const response = success_response(
+      { current },
+      "Trusted device revoked successfully",
+      200
+    );
+    // The cookie is useless from now on, no need to keep sending it
+    if (current) {
+      clearTrustedDeviceCookie(response);
+    }
+
+    return response;
+  } catch (err) {
+    console.error("DELETE /api/trusted-devices/[deviceId] error:", err);
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Trusted device not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to revoke trusted device",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import {
+  getTrustedDevices,
+  revokeAllTrustedDevices,
+} from "@/lib/actions/trusted-devices";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import {
+  TRUSTED_DEVICE_COOKIE,
+  clearTrustedDeviceCookie,
+  getAuthToken,
+  getCookie,
+  verifyCsrf,
+} from "@/lib/cookies";
+
+// Helper function to validate token and extract userId
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId };
+}
+
+//NOTE: GetTrustedDevices
+export async function GET(req: Request) {
+  try {
+    const { userId } = await validateUserToken(req);
+
+    const devices = await getTrustedDevices(
+      userId,
+      getCookie(req, TRUSTED_DEVICE_COOKIE)
+    );
+
+    return success_response(
+      devices,
+      "Trusted devices fetched successfully",
+      200
+    );
+  } catch (err) {
+    console.error("GET /api/trusted-devices error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to fetch trusted devices",
+      500
+    );
+  }
+}
+
+//NOTE: RevokeAllTrustedDevices
+export async function DELETE(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    const revokedCount = await revokeAllTrustedDevices(userId);
+
+    console.log(`Revoked ${revokedCount} trusted device(s) for user:`, userId);
+
+    const response = success_response(
+      { revoked: revokedCount },
+      "Every device will ask for a second factor again",
+      200
+    );
+    clearTrustedDeviceCookie(response);
+
+    return response;
+  } catch (err) {
+    console.error("DELETE /api/trusted-devices error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to revoke trusted devices",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
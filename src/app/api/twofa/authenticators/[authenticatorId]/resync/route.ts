@@ -0,0 +1,125 @@
+import { resyncAuthenticator } from "@/lib/actions/twofa";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId };
+}
+
+//NOTE: ResyncAuthenticator
+export async function POST(
+  req: Request,
+  { params }: { params: { authenticatorId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    if (!/^[a-f0-9]{24}$/.test(params.authenticatorId)) {
+      return error_response("Invalid authenticator id", 400);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const { firstCode, secondCode } = body || {};
+
+    // Two codes in a row from the token, the second pressed right after the first
+    if (
+      !/^(\d{6}|\d{8})$/.test(firstCode || "") ||
+      !/^(\d{6}|\d{8})$/.test(secondCode || "")
+    ) {
+      return error_response("Two consecutive 6 or 8 digit codes are required", 400);
+    }
+
+    // Two valid codes are the proof here, no step-up needed
+    await resyncAuthenticator(
+      userId,
+      params.authenticatorId,
+      firstCode,
+      secondCode,
+      getClientInfo(req)
+    );
+
+    console.log("HOTP authenticator resynchronized for user:", userId);
+
+    return success_response(null, "Authenticator resynchronized", 200);
+  } catch (err) {
+    console.error(
+      "POST /api/twofa/authenticators/[authenticatorId]/resync error:",
+      err
+    );
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if (
+      (err as any)?.message?.includes("Invalid OTP") ||
+      (err as any)?.message?.includes("Only HOTP")
+    ) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Authenticator not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to resynchronize authenticator",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
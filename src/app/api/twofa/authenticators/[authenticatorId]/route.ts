@@ -0,0 +1,159 @@
+import {
+  removeAuthenticator,
+  renameAuthenticator,
+} from "@/lib/actions/twofa";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  error_response,
+  reauth_required_response,
+  success_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: RenameAuthenticator
+export async function PUT(
+  req: Request,
+  { params }: { params: { authenticatorId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    if (!/^[a-f0-9]{24}$/.test(params.authenticatorId)) {
+      return error_response("Invalid authenticator id", 400);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    if (!body?.name) {
+      return error_response("Name is required", 400);
+    }
+
+    await renameAuthenticator(userId, params.authenticatorId, body.name);
+
+    return success_response(null, "Authenticator renamed", 200);
+  } catch (err) {
+    console.error("PUT /api/twofa/authenticators/[authenticatorId] error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("authenticator name")) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Authenticator not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to rename authenticator",
+      500
+    );
+  }
+}
+
+//NOTE: RemoveAuthenticator
+export async function DELETE(
+  req: Request,
+  { params }: { params: { authenticatorId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    if (!/^[a-f0-9]{24}$/.test(params.authenticatorId)) {
+      return error_response("Invalid authenticator id", 400);
+    }
+
+    await assertRecentStepUp(userId, sessionId);
+
+    await removeAuthenticator(userId, params.authenticatorId);
+
+    console.log("Authenticator removed for user:", userId);
+
+    return success_response(null, "Authenticator removed", 200);
+  } catch (err) {
+    console.error(
+      "DELETE /api/twofa/authenticators/[authenticatorId] error:",
+      err
+    );
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("last authenticator")) {
+      return error_response((err as any).message, 409);
+    }
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Authenticator not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to remove authenticator",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
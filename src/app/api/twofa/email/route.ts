@@ -0,0 +1,225 @@
+import {
+  disableEmailOtp,
+  enableEmailOtp,
+  isEmailOtpEnabled,
+  startEmailOtpEnrollment,
+} from "@/lib/actions/email-otp";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  error_response,
+  getClientInfo,
+  reauth_required_response,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: GetEmailOtpStatus
+export async function GET(req: Request) {
+  try {
+    const { userId } = await validateUserToken(req);
+
+    const enabled = await isEmailOtpEnabled(userId);
+
+    return success_response(
+      { enabled },
+      "Email code status fetched successfully",
+      200
+    );
+  } catch (err) {
+    console.error("GET /api/twofa/email error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to fetch email code status",
+      500
+    );
+  }
+}
+
+//NOTE: StartEmailOtpEnrollment
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    // Adding a second factor is as sensitive as removing one
+    await assertRecentStepUp(userId, sessionId);
+
+    const sentTo = await startEmailOtpEnrollment(userId);
+
+    return success_response({ sentTo }, "Verification code sent", 200);
+  } catch (err) {
+    console.error("POST /api/twofa/email error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        (err as any).message,
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("Enable 2FA")) {
+      return error_response((err as any).message, 409);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to send verification code",
+      500
+    );
+  }
+}
+
+//NOTE: EnableEmailOtp
+export async function PUT(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    if (!body?.code || typeof body.code !== "string") {
+      return error_response("Email code is required", 400);
+    }
+
+    if (!/^\d{6}$/.test(body.code)) {
+      return error_response("Email code must be 6 digits", 400);
+    }
+
+    // The enrollment code was only mailed behind a recent step-up
+    await enableEmailOtp(userId, body.code, getClientInfo(req));
+
+    console.log("Email codes enabled for user:", userId);
+
+    return success_response({ enabled: true }, "Email codes enabled", 200);
+  } catch (err) {
+    console.error("PUT /api/twofa/email error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("email code")) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to enable email codes",
+      500
+    );
+  }
+}
+
+//NOTE: DisableEmailOtp
+export async function DELETE(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    await assertRecentStepUp(userId, sessionId);
+
+    await disableEmailOtp(userId);
+
+    console.log("Email codes disabled for user:", userId);
+
+    return success_response({ enabled: false }, "Email codes disabled", 200);
+  } catch (err) {
+    console.error("DELETE /api/twofa/email error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to disable email codes",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -1,14 +1,26 @@
 import {
   delete2fa,
   generate2fa,
+  getActive2faByUserId,
+  getActiveOtpDigits,
   getTwofaByUserId,
   verify2fa,
 } from "@/lib/actions/twofa";
-import { error_response, success_response, validateToken } from "@/lib/utils";
+import { revokeAllUserTokens } from "@/lib/actions/revoked-tokens";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  error_response,
+  getClientInfo,
+  reauth_required_response,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
 
-// Helper function to validate token and extract userId
+// Helper function to validate token and extract userId and session id
 async function validateUserToken(req: Request) {
-  const token = req.headers.get("Authorization");
+  const token = getAuthToken(req);
   
   if (!token) {
     throw new Error("Authorization token is required");
@@ -26,19 +38,42 @@ async function validateUserToken(req: Request) {
     throw new Error("Invalid token: missing user ID");
   }
 
-  return validatedToken.userId;
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
 }
 
 //NOTE: Generate2fa
 export async function POST(req: Request) {
   try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
     console.log("Generating 2FA for user");
     
-    const userId = await validateUserToken(req);
+    const { userId, sessionId } = await validateUserToken(req);
     
     console.log("Generating 2FA for user ID:", userId);
-    
-    const twofa = await generate2fa(userId);
+
+    // Adding another authenticator to a protected account is as sensitive as removing one
+    if (await getActive2faByUserId(userId)) {
+      await assertRecentStepUp(userId, sessionId);
+    }
+
+    // Optional per-enrollment OTP type and parameters, deployment defaults otherwise
+    let body: any = {};
+    try {
+      body = (await req.json()) || {};
+    } catch (parseError) {
+      // No body, keep the defaults
+    }
+
+    const twofa = await generate2fa(userId, {
+      digits: body?.digits,
+      period: body?.period,
+      algorithm: body?.algorithm,
+      type: body?.type,
+    });
     
     if (!twofa) {
       return error_response("Failed to generate 2FA", 500);
@@ -51,7 +86,24 @@ export async function POST(req: Request) {
     
   } catch (err) {
     console.error("POST /api/twofa error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
     
+    if (
+      (err as any)?.message?.includes("Invalid TOTP") ||
+      (err as any)?.message?.includes("Invalid OTP type")
+    ) {
+      return error_response((err as any).message, 400);
+    }
+
     // Handle specific error types
     if ((err as any)?.message?.includes("token")) {
       return error_response((err as any).message, 401);
@@ -75,9 +127,14 @@ export async function POST(req: Request) {
 //NOTE: Verify2fa
 export async function PUT(req: Request) {
   try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
     console.log("Verifying 2FA token");
     
-    const userId = await validateUserToken(req);
+    const { userId } = await validateUserToken(req);
     
     let body;
     try {
@@ -92,20 +149,20 @@ export async function PUT(req: Request) {
       return error_response("Request body must be a valid JSON object", 400);
     }
 
-    const { token: twofaToken } = body;
+    const { token: twofaToken, name } = body;
 
     if (!twofaToken) {
       return error_response("2FA token is required", 400);
     }
 
-    // Validate token format (6 digits)
-    if (!/^\d{6}$/.test(twofaToken)) {
-      return error_response("2FA token must be 6 digits", 400);
+    // Validate token format (6 or 8 digits depending on the enrollment)
+    if (!/^(\d{6}|\d{8})$/.test(twofaToken)) {
+      return error_response("2FA token must be 6 or 8 digits", 400);
     }
 
     console.log("Verifying 2FA for user ID:", userId);
     
-    const twofa = await verify2fa(userId, twofaToken);
+    const twofa = await verify2fa(userId, twofaToken, name);
     
     if (!twofa) {
       return error_response("Invalid or expired 2FA token", 401);
@@ -117,14 +174,19 @@ export async function PUT(req: Request) {
     
   } catch (err) {
     console.error("PUT /api/twofa error:", err);
+
+    if ((err as any)?.message?.includes("authenticator name")) {
+      return error_response((err as any).message, 400);
+    }
     
     // Handle specific error types
     if ((err as any)?.message?.includes("token")) {
       return error_response((err as any).message, 401);
     }
     
+    // A wrong OTP is not a session failure, keep 401 for invalid access tokens only
     if ((err as any)?.message?.includes("Invalid") || (err as any)?.message?.includes("expired")) {
-      return error_response("Invalid or expired 2FA token", 401);
+      return error_response("Invalid or expired 2FA token", 400);
     }
     
     if ((err as any)?.code === 'P2025') { // Record not found
@@ -143,17 +205,23 @@ export async function GET(req: Request) {
   try {
     console.log("Fetching 2FA status");
     
-    const userId = await validateUserToken(req);
+    const { userId } = await validateUserToken(req);
     
     console.log("Fetching 2FA for user ID:", userId);
     
     const twofa = await getTwofaByUserId(userId);
     
     // Return consistent response even if no 2FA is set up
-    const response = twofa || { 
-      enabled: false, 
-      message: "2FA not configured" 
-    };
+    const response = twofa
+      ? {
+          ...twofa.toObject(),
+          // The removal prompt accepts a code from any active authenticator
+          otpDigitOptions: await getActiveOtpDigits(userId),
+        }
+      : {
+          enabled: false,
+          message: "2FA not configured",
+        };
 
     console.log("2FA status fetched for user:", userId);
     
@@ -186,24 +254,85 @@ export async function GET(req: Request) {
 //NOTE: Delete2fa
 export async function DELETE(req: Request) {
   try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
     console.log("Deleting 2FA");
     
-    const userId = await validateUserToken(req);
+    const { userId, sessionId } = await validateUserToken(req);
     
     console.log("Deleting 2FA for user ID:", userId);
-    
-    const twofa = await delete2fa(userId);
+
+    await assertRecentStepUp(userId, sessionId);
+
+    // Once an authenticator is active a current code or an unused recovery code is required, delete2fa checks it
+    let body: any = {};
+    try {
+      const text = await req.text();
+      body = text ? JSON.parse(text) || {} : {};
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const { token, recoveryCode } = body;
+
+    // Validate 2FA token format (6 or 8 digits depending on the enrollment)
+    if (token && !/^(\d{6}|\d{8})$/.test(token)) {
+      return error_response("2FA token must be 6 or 8 digits", 400);
+    }
+
+    const twofa = await delete2fa(
+      userId,
+      { token, recoveryCode },
+      getClientInfo(req)
+    );
     
     if (!twofa) {
       return error_response("2FA not found or already disabled", 404);
     }
 
+    // Tokens minted while 2FA was on must not outlive it, this device keeps its session
+    await revokeAllUserTokens(userId, "twofa_disabled", {
+      keepSessionId: sessionId,
+    });
+
     console.log("2FA deleted successfully for user:", userId);
     
     return success_response(twofa, "2FA disabled successfully", 200);
     
   } catch (err) {
     console.error("DELETE /api/twofa error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if (
+      (err as any)?.message?.includes("Invalid OTP") ||
+      (err as any)?.message?.includes("recovery code") ||
+      (err as any)?.message?.includes("authentication code")
+    ) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("do not have 2FA enabled")) {
+      return error_response("2FA not found or already disabled", 404);
+    }
     
     // Handle specific error types
     if ((err as any)?.message?.includes("token")) {
@@ -232,7 +361,7 @@ export async function OPTIONS(req: Request) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-CSRF-Token',
     },
   });
 }
\ No newline at end of file
@@ -0,0 +1,289 @@
+import {
+  confirmSmsEnrollment,
+  getPhoneFactor,
+  startSmsEnrollment,
+} from "@/lib/actions/sms-otp";
+import { removePhoneFactor } from "@/lib/actions/twofa";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import { revokeAllUserTokens } from "@/lib/actions/revoked-tokens";
+import {
+  error_response,
+  getClientInfo,
+  reauth_required_response,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: GetPhoneFactor
+export async function GET(req: Request) {
+  try {
+    const { userId } = await validateUserToken(req);
+
+    const phoneFactor = await getPhoneFactor(userId);
+
+    return success_response(
+      phoneFactor,
+      "Phone number fetched successfully",
+      200
+    );
+  } catch (err) {
+    console.error("GET /api/twofa/sms error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to fetch phone number",
+      500
+    );
+  }
+}
+
+//NOTE: StartSmsEnrollment
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    if (!body?.phoneNumber) {
+      return error_response("Phone number is required", 400);
+    }
+
+    // Adding a second factor is as sensitive as removing one
+    await assertRecentStepUp(userId, sessionId);
+
+    const sentTo = await startSmsEnrollment(
+      userId,
+      body.phoneNumber,
+      getClientInfo(req)
+    );
+
+    return success_response({ sentTo }, "Verification code sent", 200);
+  } catch (err) {
+    console.error("POST /api/twofa/sms error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        (err as any).message,
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("Invalid phone number")) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("already enrolled")) {
+      return error_response((err as any).message, 409);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to send verification code",
+      500
+    );
+  }
+}
+
+//NOTE: ConfirmSmsEnrollment
+export async function PUT(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    if (!body?.code || typeof body.code !== "string") {
+      return error_response("SMS code is required", 400);
+    }
+
+    if (!/^\d{6}$/.test(body.code)) {
+      return error_response("SMS code must be 6 digits", 400);
+    }
+
+    // The enrollment code was only texted behind a recent step-up
+    await confirmSmsEnrollment(userId, body.code, getClientInfo(req));
+
+    console.log("Phone number enrolled for user:", userId);
+
+    return success_response({ status: true }, "Phone number verified", 200);
+  } catch (err) {
+    console.error("PUT /api/twofa/sms error:", err);
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("SMS code")) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to verify phone number",
+      500
+    );
+  }
+}
+
+//NOTE: RemovePhoneFactor
+export async function DELETE(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    await assertRecentStepUp(userId, sessionId);
+
+    // Only checked when the phone is the last factor, the body may be empty otherwise
+    let body: any = {};
+    try {
+      const text = await req.text();
+      body = text ? JSON.parse(text) || {} : {};
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const { smsCode, recoveryCode } = body;
+
+    if (smsCode && !/^\d{6}$/.test(smsCode)) {
+      return error_response("SMS code must be 6 digits", 400);
+    }
+
+    const twofaDisabled = await removePhoneFactor(
+      userId,
+      { smsCode, recoveryCode },
+      getClientInfo(req)
+    );
+
+    // Same as DELETE /api/twofa, tokens minted while 2FA was on must not outlive it, this device keeps its session
+    if (twofaDisabled) {
+      await revokeAllUserTokens(userId, "twofa_disabled", {
+        keepSessionId: sessionId,
+      });
+    }
+
+    console.log("Phone number removed for user:", userId);
+
+    return success_response(null, "Phone number removed", 200);
+  } catch (err) {
+    console.error("DELETE /api/twofa/sms error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        "Too many verification attempts. Please try again later.",
+        (err as any).retryAfter
+      );
+    }
+
+    if (
+      (err as any)?.message?.includes("SMS code") ||
+      (err as any)?.message?.includes("recovery code")
+    ) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("No phone number")) {
+      return error_response((err as any).message, 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to remove phone number",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
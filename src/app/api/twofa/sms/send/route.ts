@@ -0,0 +1,101 @@
+import { sendAccountSmsOtp } from "@/lib/actions/user";
+import {
+  error_response,
+  getClientInfo,
+  success_response,
+  too_many_requests_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return validatedToken.userId;
+}
+
+//NOTE: SendAccountSmsOtp
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const userId = await validateUserToken(req);
+
+    // The step-up code by default, removing the last factor asks for one of its own
+    let body: any = {};
+    try {
+      const text = await req.text();
+      body = text ? JSON.parse(text) || {} : {};
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    const purpose = body.purpose || "step_up";
+    if (purpose !== "step_up" && purpose !== "phone_removal") {
+      return error_response("Unknown code purpose", 400);
+    }
+
+    const sentTo = await sendAccountSmsOtp(
+      userId,
+      purpose,
+      getClientInfo(req)
+    );
+
+    return success_response({ sentTo }, "Verification code sent", 200);
+  } catch (err) {
+    console.error("POST /api/twofa/sms/send error:", err);
+
+    // Covers the OTP lockout, the resend cooldown and the SMS volume limits
+    if ((err as any)?.name === "TooManyRequestsError") {
+      return too_many_requests_response(
+        (err as any).message,
+        (err as any).retryAfter
+      );
+    }
+
+    if ((err as any)?.message?.includes("No phone number")) {
+      return error_response("No phone number enrolled for this account", 409);
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to send verification code",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,155 @@
+import {
+  removeWebauthnCredential,
+  renameWebauthnCredential,
+} from "@/lib/actions/webauthn";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  error_response,
+  reauth_required_response,
+  success_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: RenameWebauthnCredential
+export async function PUT(
+  req: Request,
+  { params }: { params: { credentialId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    if (!/^[a-f0-9]{24}$/.test(params.credentialId)) {
+      return error_response("Invalid security key id", 400);
+    }
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    if (!body?.name) {
+      return error_response("Name is required", 400);
+    }
+
+    await renameWebauthnCredential(userId, params.credentialId, body.name);
+
+    return success_response(null, "Security key renamed", 200);
+  } catch (err) {
+    console.error("PUT /api/webauthn/credentials/[credentialId] error:", err);
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("security key name")) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Security key not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to rename security key",
+      500
+    );
+  }
+}
+
+//NOTE: RemoveWebauthnCredential
+export async function DELETE(
+  req: Request,
+  { params }: { params: { credentialId: string } }
+) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    if (!/^[a-f0-9]{24}$/.test(params.credentialId)) {
+      return error_response("Invalid security key id", 400);
+    }
+
+    await assertRecentStepUp(userId, sessionId);
+
+    await removeWebauthnCredential(userId, params.credentialId);
+
+    console.log("Security key removed for user:", userId);
+
+    return success_response(null, "Security key removed", 200);
+  } catch (err) {
+    console.error(
+      "DELETE /api/webauthn/credentials/[credentialId] error:",
+      err
+    );
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("Security key not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to remove security key",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { getUserWebauthnCredentials } from "@/lib/actions/webauthn";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken } from "@/lib/cookies";
+
+//NOTE: GetUserWebauthnCredentials
+export async function GET(req: Request) {
+  try {
+    const token = getAuthToken(req);
+
+    // Check if token exists
+    if (!token) {
+      return error_response("Authorization token is required", 401);
+    }
+
+    let validatedToken;
+    try {
+      validatedToken = await validateToken(token);
+    } catch (tokenError) {
+      console.error("Token validation error:", tokenError);
+      return error_response("Invalid or expired token", 401);
+    }
+
+    if (!validatedToken?.userId) {
+      return error_response("Invalid token: missing user ID", 401);
+    }
+
+    const credentials = await getUserWebauthnCredentials(
+      validatedToken.userId
+    );
+
+    return success_response(
+      credentials,
+      "Security keys fetched successfully",
+      200
+    );
+  } catch (err) {
+    console.error("GET /api/webauthn/credentials error:", err);
+
+    return error_response(
+      (err as any)?.message || "Failed to fetch security keys",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
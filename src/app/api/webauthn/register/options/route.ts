@@ -0,0 +1,92 @@
+import { startWebauthnRegistration } from "@/lib/actions/webauthn";
+import { assertRecentStepUp } from "@/lib/actions/session";
+import {
+  error_response,
+  reauth_required_response,
+  success_response,
+} from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: StartWebauthnRegistration
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId, sessionId } = await validateUserToken(req);
+
+    // Adding a second factor is as sensitive as removing one
+    await assertRecentStepUp(userId, sessionId);
+
+    const options = await startWebauthnRegistration(userId);
+
+    return success_response(options, "Security key challenge issued", 200);
+  } catch (err) {
+    console.error("POST /api/webauthn/register/options error:", err);
+
+    // Sensitive action, the client prompts for password and TOTP then retries
+    if ((err as any)?.name === "ReauthRequiredError") {
+      return reauth_required_response(
+        (err as any).message,
+        (err as any).otpDigits,
+        (err as any).smsRequired,
+        (err as any).otpDigitOptions
+      );
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("Enable 2FA")) {
+      return error_response((err as any).message, 409);
+    }
+
+    if ((err as any)?.message?.includes("not found")) {
+      return error_response("User not found", 404);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to start security key registration",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { finishWebauthnRegistration } from "@/lib/actions/webauthn";
+import { error_response, success_response } from "@/lib/utils";
+import { validateToken } from "@/lib/token-status";
+import { getAuthToken, verifyCsrf } from "@/lib/cookies";
+
+// Helper function to validate token and extract userId and session id
+async function validateUserToken(req: Request) {
+  const token = getAuthToken(req);
+
+  if (!token) {
+    throw new Error("Authorization token is required");
+  }
+
+  let validatedToken;
+  try {
+    validatedToken = await validateToken(token);
+  } catch (tokenError) {
+    console.error("Token validation error:", tokenError);
+    throw new Error("Invalid or expired token");
+  }
+
+  if (!validatedToken || !validatedToken.userId) {
+    throw new Error("Invalid token: missing user ID");
+  }
+
+  return { userId: validatedToken.userId, sessionId: validatedToken.sid };
+}
+
+//NOTE: FinishWebauthnRegistration
+export async function POST(req: Request) {
+  try {
+    // Cookie-authenticated mutation, require the double-submit CSRF token
+    if (!verifyCsrf(req)) {
+      return error_response("Invalid or missing CSRF token", 403);
+    }
+
+    const { userId } = await validateUserToken(req);
+
+    let body;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      return error_response("Invalid JSON in request body", 400);
+    }
+
+    if (!body?.credential || typeof body.credential !== "object") {
+      return error_response("Security key response is required", 400);
+    }
+
+    // The stored challenge was only issued behind a recent step-up
+    const credential = await finishWebauthnRegistration(
+      userId,
+      body.credential,
+      body.name
+    );
+
+    console.log("Security key registered for user:", userId);
+
+    return success_response(credential, "Security key registered", 201);
+  } catch (err) {
+    console.error("POST /api/webauthn/register error:", err);
+
+    if (
+      (err as any)?.message?.includes("WebAuthn") ||
+      (err as any)?.message?.includes("security key name")
+    ) {
+      return error_response((err as any).message, 400);
+    }
+
+    if ((err as any)?.message?.includes("token")) {
+      return error_response((err as any).message, 401);
+    }
+
+    if ((err as any)?.message?.includes("already registered")) {
+      return error_response((err as any).message, 409);
+    }
+
+    return error_response(
+      (err as any)?.message || "Failed to register security key",
+      500
+    );
+  }
+}
+
+// Optional: Add OPTIONS method for CORS support
+export async function OPTIONS(req: Request) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-CSRF-Token",
+    },
+  });
+}
@@ -1,17 +1,6 @@
-"use client";
-
-import { useRouter } from "next/navigation";
 import LoginPage from "./(auth)/login/page";
-import { useEffect } from "react";
 
+// NOTE: Signed-in visitors are redirected to /home by src/middleware.ts.
 export default function Home() {
-  const router = useRouter();
-
-  useEffect(() => {
-    if (localStorage.getItem("TOKEN")) {
-      router.push("home");
-    }
-  }, []);
-
   return <LoginPage />;
-}
\ No newline at end of file
+}
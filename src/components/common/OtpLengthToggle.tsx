@@ -0,0 +1,25 @@
+import React from "react";
+
+interface IProps {
+  // Every code length the user's authenticators produce
+  options: number[];
+  value: number;
+  onChange: (digits: number) => void;
+}
+
+// NOTE: OTP inputs have a fixed number of boxes, with a 6 and an 8 digit app enrolled the user picks the length.
+function OtpLengthToggle({ options, value, onChange }: IProps) {
+  const other = options.find((digits) => digits !== value);
+  if (!other) return null;
+
+  return (
+    <p
+      className="text-primary inline-block mt-4 mr-6 text-sm cursor-pointer select-none"
+      onClick={() => onChange(other)}
+    >
+      Use a {other} digit code instead
+    </p>
+  );
+}
+
+export default OtpLengthToggle;
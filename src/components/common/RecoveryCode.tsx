@@ -1,52 +1,63 @@
 import React from "react";
 import SuccessBadge from "@/components/common/SuccessBadge";
 import WarningBadge from "@/components/common/WarningBadge";
+import { IRecoveryCode } from "@/types";
+
+// When, where and from which browser a used code was redeemed
+function UsageDetails({ code }: { code: IRecoveryCode }) {
+  if (!code.usedAt) return null;
+
+  const device =
+    code.usedBrowser && code.usedOs
+      ? `${code.usedBrowser} on ${code.usedOs}`
+      : null;
+
+  return (
+    <span className="ml-2 font-normal text-[#758494] text-[0.8rem] self-center">
+      {[new Date(code.usedAt).toLocaleString(), device, code.usedIp]
+        .filter(Boolean)
+        .join(" · ")}
+    </span>
+  );
+}
 
 function RecoveryCode({
   recoveryCodes,
   ignoreBadge = false,
 }: {
-  recoveryCodes: any;
+  recoveryCodes: IRecoveryCode[] | null;
   ignoreBadge?: boolean;
 }) {
+  // Two columns whatever the count, the first one takes the odd code out
+  const half = Math.ceil((recoveryCodes?.length || 0) / 2);
+  const columns = [
+    recoveryCodes?.slice(0, half) || [],
+    recoveryCodes?.slice(half) || [],
+  ];
+
   return (
     <section className="flex justify-around w-full flex-col  md:flex-row mt-8 border border-[#1f232826] rounded-lg shadow-sm p-4">
-      <div>
-        <div>
-          {recoveryCodes?.slice(0, 8)?.map((code: any) => (
-            <div className="font-bold text-[#1f2328] mb-2 flex" key={code.id}>
-              {!ignoreBadge && (
-                <div>
-                  {!code.active ? (
-                    <SuccessBadge text="Active" />
-                  ) : (
-                    <WarningBadge text="Used" />
-                  )}
-                </div>
-              )}
-              <span className="ml-2">{code.code}</span>
-            </div>
-          ))}
-        </div>
-      </div>
-      <div>
-        <div>
-          {recoveryCodes?.slice(-8)?.map((code: any) => (
-            <div className="font-bold text-[#1f2328] mb-2 flex" key={code.id}>
-              {!ignoreBadge && (
-                <div>
-                  {!code.active ? (
-                    <SuccessBadge text="Active" />
-                  ) : (
-                    <WarningBadge text="Used" />
-                  )}
-                </div>
-              )}
-              <span className="ml-2">{code.code}</span>
-            </div>
-          ))}
+      {columns.map((column, index) => (
+        <div key={index}>
+          <div>
+            {column.map((code) => (
+              <div className="font-bold text-[#1f2328] mb-2 flex" key={code._id}>
+                {!ignoreBadge && (
+                  <div>
+                    {!code.active ? (
+                      <SuccessBadge text="Active" />
+                    ) : (
+                      <WarningBadge text="Used" />
+                    )}
+                  </div>
+                )}
+                <span className="ml-2">{code.code}</span>
+                {!ignoreBadge && code.active && <UsageDetails code={code} />}
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
+      ))}
     </section>
   );
 }
@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import MainButton from "@/components/common/MainButton";
+import { Input } from "@/components/ui/input";
+import { downloadFileService } from "@/service/apiService";
+import { ReauthModal } from "@/components/modals/ReauthModal";
+import { IReauthRequired } from "@/types";
+
+type RecoveryKitFormat = "pdf" | "csv" | "json";
+
+const FORMATS: { format: RecoveryKitFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+];
+
+// Mirrors MIN_RECOVERY_KIT_PASSPHRASE_LENGTH, the server has the final say
+const MIN_PASSPHRASE_LENGTH = 12;
+
+interface IProps {
+  batchId: string;
+}
+
+// NOTE: The kit is only downloadable for a few minutes after the codes are generated.
+function RecoveryKitDownload({ batchId }: IProps) {
+  const [downloading, setDownloading] = useState<RecoveryKitFormat | null>(
+    null
+  );
+  const [passphrase, setPassphrase] = useState("");
+  const [reauth, setReauth] = useState<{
+    required: IReauthRequired;
+    format: RecoveryKitFormat;
+  } | null>(null);
+
+  const passphraseTooShort =
+    passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH;
+
+  const handleDownload = async (format: RecoveryKitFormat) => {
+    setDownloading(format);
+    await downloadFileService("/api/recovery-codes/export", {
+      method: "POST",
+      body: {
+        batchId,
+        format,
+        passphrase: passphrase || undefined,
+      },
+      onReauthRequired: (required) => setReauth({ required, format }),
+    });
+    setDownloading(null);
+  };
+
+  return (
+    <section className="flex flex-col gap-2">
+      <div className="flex flex-col gap-4 md:flex-row md:gap-8">
+        {FORMATS.map(({ format, label }) => (
+          <div key={format}>
+            <MainButton
+              text={label}
+              iconComponent={<Download className="w-4 h-4" />}
+              classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
+              action={() => handleDownload(format)}
+              isLoading={downloading === format}
+              disabled={!!downloading || passphraseTooShort}
+              dataLoadingText="Wait..."
+            />
+          </div>
+        ))}
+      </div>
+      <Input
+        type="password"
+        autoComplete="new-password"
+        placeholder={`Optional passphrase, at least ${MIN_PASSPHRASE_LENGTH} characters`}
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+      />
+      <div className="text-[#656d76] text-[.8rem]">
+        {passphraseTooShort
+          ? `The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters.`
+          : "With a passphrase the file is encrypted, open it with openssl enc -d -aes-256-cbc -pbkdf2 -iter 600000 -md sha256."}
+      </div>
+      <ReauthModal
+        reauth={reauth?.required || null}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          if (reauth) {
+            handleDownload(reauth.format);
+          }
+          setReauth(null);
+        }}
+      />
+    </section>
+  );
+}
+
+export default RecoveryKitDownload;
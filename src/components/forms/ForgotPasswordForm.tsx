@@ -0,0 +1,116 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import MainButton from "../common/MainButton";
+import Link from "next/link";
+import { useState } from "react";
+import makeApiCallService from "@/service/apiService";
+import { RequestPasswordResetInputValidation } from "@/lib/validations";
+
+const FormSchema = RequestPasswordResetInputValidation;
+
+function ForgotPasswordForm() {
+  const [loading, setLoading] = useState(false);
+  // The server answers the same for unknown addresses, so does this screen
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<z.infer<typeof FormSchema>>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onSubmit(data: z.infer<typeof FormSchema>) {
+    try {
+      setLoading(true);
+
+      const response = await makeApiCallService("/api/password-reset", {
+        method: "POST",
+        body: data,
+      });
+
+      if (response) {
+        setSent(true);
+      }
+
+      setLoading(false);
+    } catch (err) {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-[2.81rem] justify-center items-center h-screen px-4 lg:px-[4rem]">
+      <div className="self-start">
+        <p className="text-[#333] text-[1.625rem] font-[700]">
+          Forgot your password?
+        </p>
+        <p className="text-[#333] text-[1.125rem]">
+          We will email you a link to choose a new one
+        </p>
+      </div>
+      {sent ? (
+        <div className="w-full space-y-6">
+          <p className="text-[#758494]">
+            If an account exists for {form.getValues("email")}, a reset link is
+            on its way. It expires shortly and works once.
+          </p>
+          <div className="flex justify-end text-[#191A15] mt-4">
+            <Link href="/login">Back to login</Link>
+          </div>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="w-full space-y-6"
+          >
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      placeholder="Email Address"
+                      {...field}
+                      className="h-[3.75rem] w-full rounded-large"
+                      startIcon="email"
+                      type="email"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <MainButton
+              text="Send reset link"
+              classes="h-[3.31rem] rounded-large"
+              width="full_width"
+              isSubmitable
+              isLoading={loading}
+            />
+
+            <div className="flex justify-end text-[#191A15] mt-4">
+              <Link href="/login">Back to login</Link>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
+
+export default ForgotPasswordForm;
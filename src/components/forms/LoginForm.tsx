@@ -15,20 +15,19 @@ import MainButton from "../common/MainButton";
 import Link from "next/link";
 import { useState } from "react";
 import makeApiCallService from "@/service/apiService";
-import { useRouter } from "next/navigation";
-import {
-  ILoginUserResponse,
-  IRecoveryCodeStatusCheckResponse,
-  ITwoFaResponse,
-} from "@/types";
+import { useRouter, useSearchParams } from "next/navigation";
+import { ILoginUserResponse, MfaMethod } from "@/types";
 import { LoginTwoFaModal } from "../modals/LoginTwoFaModal";
 import { Toaster } from "../ui/toaster";
 import { LoginUserInputValidation } from "@/lib/validations";
+import { getSafeReturnTo } from "@/lib/utils";
 
 const FormSchema = LoginUserInputValidation
 
 function LoginForm() {
   const router = useRouter();
+  // Set by src/middleware.ts when a protected page bounced the visitor here
+  const redirectTo = getSafeReturnTo(useSearchParams().get("returnTo"));
   const form = useForm<z.infer<typeof FormSchema>>({
     resolver: zodResolver(FormSchema),
     defaultValues: {
@@ -38,60 +37,35 @@ function LoginForm() {
   });
   const [loading, setLoading] = useState(false);
   const [open, setOpen] = useState(false);
+  const [challengeToken, setChallengeToken] = useState("");
+  const [otpDigits, setOtpDigits] = useState(6);
+  const [otpDigitOptions, setOtpDigitOptions] = useState<number[]>([6]);
+  const [mfaMethods, setMfaMethods] = useState<MfaMethod[]>(["totp"]);
+  const [trustDeviceDays, setTrustDeviceDays] = useState(30);
   const [passwordHidden, setPasswordHidden] = useState(true);
 
-  const loginUser = async (data: z.infer<typeof FormSchema>) => {
-    try {
-      const response = await makeApiCallService<ILoginUserResponse>(
-        "/api/login",
-        {
-          method: "POST",
-          body: data,
-        }
-      );
-      if (response?.response?.meta?.success) {
-        localStorage.setItem("TOKEN", response?.response?.data?.token);
-
-        router.push("/home");
-      }
-    } catch (err) {
-      setLoading(false);
-    }
-  };
   async function onSubmit(data: z.infer<typeof FormSchema>) {
     try {
       setLoading(true);
 
-      // NOTE: Check if password is a valid recovery code
-      const recoveryCodeResponse = await makeApiCallService<
-        IRecoveryCodeStatusCheckResponse
-      >("/api/recovery-codes", {
-        method: "PUT",
-        body: {
-          email: data.email,
-          code: data.password,
-        },
-      });
-
-      if (recoveryCodeResponse?.response?.data) {
-        loginUser(data);
-        return;
-      }
-
-      const twofaCheckResponse = await makeApiCallService<ITwoFaResponse>(
-        "/api/twofa-by-email",
+      const response = await makeApiCallService<ILoginUserResponse>(
+        "/api/login",
         {
           method: "POST",
-          body: {
-            email: data.email,
-          },
+          body: data,
         }
       );
 
-      if (twofaCheckResponse?.response?.data?.status) {
+      // NOTE: 2FA is enforced by the server, the password alone only yields a challenge
+      if (response?.response?.data?.mfaRequired) {
+        setChallengeToken(response?.response?.data?.challengeToken as string);
+        setOtpDigits(response?.response?.data?.otpDigits || 6);
+        setOtpDigitOptions(response?.response?.data?.otpDigitOptions || []);
+        setMfaMethods(response?.response?.data?.mfaMethods || ["totp"]);
+        setTrustDeviceDays(response?.response?.data?.trustDeviceDays || 30);
         setOpen(true);
-      } else {
-        loginUser(data);
+      } else if (response?.response?.meta?.success) {
+        router.push(redirectTo);
       }
       setLoading(false);
     } catch (err) {
@@ -147,7 +121,13 @@ function LoginForm() {
               </FormItem>
             )}
           />
-          <div className="flex justify-end">
+          <div className="flex justify-between">
+            <Link
+              href="/forgot-password"
+              className="text-primary inline-block text-sm select-none"
+            >
+              Forgot password?
+            </Link>
             <p
               className="text-primary inline-block  text-sm cursor-pointer select-none"
               onClick={() => setPasswordHidden(!passwordHidden)}
@@ -171,8 +151,12 @@ function LoginForm() {
       </Form>
       {open && (
         <LoginTwoFaModal
-          email={form.getValues()?.email}
-          password={form.getValues()?.password}
+          challengeToken={challengeToken}
+          otpDigits={otpDigits}
+          otpDigitOptions={otpDigitOptions}
+          mfaMethods={mfaMethods}
+          trustDeviceDays={trustDeviceDays}
+          redirectTo={redirectTo}
           open={open}
           setOpen={setOpen}
         />
@@ -0,0 +1,361 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
+import MainButton from "../common/MainButton";
+import OtpLengthToggle from "../common/OtpLengthToggle";
+import Link from "next/link";
+import OTPInput from "react-otp-input";
+import { useEffect, useState } from "react";
+import makeApiCallService from "@/service/apiService";
+import { useRouter } from "next/navigation";
+import { Skeleton } from "../ui/skeleton";
+import {
+  IOtpSentResponse,
+  IPasswordResetChallenge,
+  IPasswordResetChallengeResponse,
+} from "@/types";
+import { ResetPasswordInputValidation } from "@/lib/validations";
+
+const FormSchema = z
+  .object({
+    password: ResetPasswordInputValidation.shape.password,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match.",
+    path: ["confirmPassword"],
+  });
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const [resetToken, setResetToken] = useState<string | null>(null);
+  const [challenge, setChallenge] = useState<IPasswordResetChallenge | null>(
+    null
+  );
+  const [checking, setChecking] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [otp, setOtp] = useState("");
+  // Starts on the authenticator used last, the user can switch to another length
+  const [otpDigits, setOtpDigits] = useState(6);
+  // Which factor proves the reset, phone-only accounts start on SMS
+  const [factor, setFactor] = useState<"totp" | "sms" | "recovery">("totp");
+  const [smsCode, setSmsCode] = useState("");
+  const [smsSentTo, setSmsSentTo] = useState<string | null>(null);
+  const [sendingSms, setSendingSms] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const form = useForm<z.infer<typeof FormSchema>>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const secondFactorMissing =
+    !!challenge?.otpRequired &&
+    (factor === "recovery"
+      ? !recoveryCode.trim()
+      : factor === "sms"
+      ? smsCode.length !== 6
+      : otp.length !== otpDigits);
+
+  const sendSmsCode = async () => {
+    setSendingSms(true);
+    const response = await makeApiCallService<IOtpSentResponse>(
+      "/api/password-reset/sms/send",
+      {
+        method: "POST",
+        body: { resetToken },
+      }
+    );
+    setSendingSms(false);
+
+    if (response?.response?.data?.sentTo) {
+      setSmsSentTo(response.response.data.sentTo);
+    }
+  };
+
+  const switchFactor = (next: "totp" | "sms" | "recovery") => {
+    setFactor(next);
+    // The first code goes out right away, later ones on request
+    if (next === "sms" && !smsSentTo) {
+      sendSmsCode();
+    }
+  };
+
+  async function onSubmit(data: z.infer<typeof FormSchema>) {
+    try {
+      setLoading(true);
+
+      const response = await makeApiCallService("/api/password-reset", {
+        method: "PUT",
+        body: {
+          resetToken,
+          password: data.password,
+          ...(challenge?.otpRequired
+            ? factor === "recovery"
+              ? { recoveryCode: recoveryCode.trim() }
+              : factor === "sms"
+              ? { smsCode }
+              : { token: otp }
+            : {}),
+        },
+      });
+
+      if (response) {
+        toast({
+          title: "Password reset",
+          description: "Every session was signed out, sign in with your new password.",
+        });
+        router.push("/login");
+      } else {
+        setOtp("");
+        setSmsCode("");
+      }
+
+      setLoading(false);
+    } catch (err) {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    // The link carries the token in the fragment, it never reaches the server as part of the page URL
+    const token = new URLSearchParams(window.location.hash.slice(1)).get(
+      "token"
+    );
+    setResetToken(token);
+
+    async function fetch() {
+      if (!token) {
+        setChecking(false);
+        return;
+      }
+
+      try {
+        const status =
+          await makeApiCallService<IPasswordResetChallengeResponse>(
+            "/api/password-reset/verify",
+            {
+              method: "POST",
+              body: { resetToken: token },
+            }
+          );
+
+        setChallenge(status?.response?.data || null);
+        setOtpDigits(status?.response?.data?.otpDigits || 6);
+        if (status?.response?.data && !status.response.data.otpDigits) {
+          setFactor(status.response.data.smsAvailable ? "sms" : "recovery");
+        }
+        setChecking(false);
+      } catch (err) {
+        setChecking(false);
+      }
+    }
+
+    fetch();
+  }, []);
+
+  return (
+    <div className="w-full flex flex-col gap-[2.81rem] justify-center items-center h-screen px-4 lg:px-[4rem]">
+      <div className="self-start">
+        <p className="text-[#333] text-[1.625rem] font-[700]">
+          Choose a new password
+        </p>
+        <p className="text-[#333] text-[1.125rem]">
+          You will be signed out everywhere afterwards
+        </p>
+      </div>
+      {checking ? (
+        <Skeleton className="w-full h-[12rem]" />
+      ) : !challenge ? (
+        <div className="w-full space-y-6">
+          <p className="text-[#758494]">
+            This reset link is invalid or has expired.
+          </p>
+          <div className="flex justify-end text-[#191A15] mt-4">
+            <Link href="/forgot-password">Request a new link</Link>
+          </div>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="w-full space-y-6"
+          >
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      placeholder="New password"
+                      {...field}
+                      className="h-[3.75rem] w-full rounded-large"
+                      startIcon="padlock"
+                      type="password"
+                      autoComplete="new-password"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      placeholder="Confirm new password"
+                      {...field}
+                      className="h-[3.75rem] w-full rounded-large"
+                      startIcon="padlock"
+                      type="password"
+                      autoComplete="new-password"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* NOTE: With 2FA on, the emailed link alone cannot change the password */}
+            {challenge.otpRequired && (
+              <div>
+                {factor === "recovery" ? (
+                  <>
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      Enter one of your unused recovery codes
+                    </p>
+                    <Input
+                      placeholder="xxxx-xxxx-xxxx"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      className="h-[3.75rem] w-full rounded-large text-black"
+                    />
+                  </>
+                ) : factor === "sms" ? (
+                  <>
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      {smsSentTo
+                        ? `Enter the 6 digit code sent to ${smsSentTo}`
+                        : sendingSms
+                        ? "Sending a code..."
+                        : "Get a 6 digit code by text message"}
+                    </p>
+                    <OTPInput
+                      value={smsCode}
+                      onChange={setSmsCode}
+                      numInputs={6}
+                      renderSeparator={<div className="pl-[0.69rem]"></div>}
+                      renderInput={(props: any) => (
+                        <input
+                          {...props}
+                          className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                        />
+                      )}
+                    />
+                    <p
+                      className="text-primary inline-block mt-4 mr-6 text-sm cursor-pointer select-none"
+                      onClick={() => (sendingSms ? undefined : sendSmsCode())}
+                    >
+                      {sendingSms
+                        ? "Sending..."
+                        : smsSentTo
+                        ? "Send a new code"
+                        : "Send code"}
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      Enter the {otpDigits} digit code from your authenticator
+                      app
+                    </p>
+                    <OTPInput
+                      value={otp}
+                      onChange={setOtp}
+                      numInputs={otpDigits}
+                      renderSeparator={<div className="pl-[0.69rem]"></div>}
+                      renderInput={(props: any) => (
+                        <input
+                          {...props}
+                          className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                        />
+                      )}
+                    />
+                    <OtpLengthToggle
+                      options={challenge.otpDigitOptions || []}
+                      value={otpDigits}
+                      onChange={(digits) => {
+                        setOtpDigits(digits);
+                        setOtp("");
+                      }}
+                    />
+                  </>
+                )}
+                <div className="flex flex-wrap gap-x-6">
+                  {factor !== "totp" && !!challenge.otpDigits && (
+                    <p
+                      className="text-primary inline-block mt-4 text-sm cursor-pointer select-none"
+                      onClick={() => switchFactor("totp")}
+                    >
+                      Use your authenticator app instead
+                    </p>
+                  )}
+                  {factor !== "sms" && challenge.smsAvailable && (
+                    <p
+                      className="text-primary inline-block mt-4 text-sm cursor-pointer select-none"
+                      onClick={() => switchFactor("sms")}
+                    >
+                      Text me a code instead
+                    </p>
+                  )}
+                  {factor !== "recovery" && (
+                    <p
+                      className="text-primary inline-block mt-4 text-sm cursor-pointer select-none"
+                      onClick={() => switchFactor("recovery")}
+                    >
+                      Use a recovery code instead
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <MainButton
+              text="Reset password"
+              classes="h-[3.31rem] rounded-large"
+              width="full_width"
+              isSubmitable
+              isLoading={loading}
+              disabled={secondFactorMissing}
+            />
+
+            <div className="flex justify-end text-[#191A15] mt-4">
+              <Link href="/login">Back to login</Link>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
+
+export default ResetPasswordForm;
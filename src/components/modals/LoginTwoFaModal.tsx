@@ -1,24 +1,66 @@
 import { useEffect, useState } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import MainButton from "@/components/common/MainButton";
+import OtpLengthToggle from "@/components/common/OtpLengthToggle";
 import makeApiCallService from "@/service/apiService";
 import OTPInput from "react-otp-input";
-import { ILoginUserResponse } from "@/types";
+import {
+  ILoginUserResponse,
+  IOtpSentResponse,
+  IWebauthnOptionsResponse,
+  MfaMethod,
+} from "@/types";
+import { Input } from "@/components/ui/input";
+import { toast } from "@/components/ui/use-toast";
 import { useRouter } from "next/navigation";
+import {
+  PublicKeyCredentialRequestOptionsJSON,
+  startAuthentication,
+} from "@simplewebauthn/browser";
+
+// Factors that deliver a code to the user instead of generating it on a device
+type DeliveryChannel = "email" | "sms";
 
 interface IProps {
-  email: string;
-  password: string;
+  challengeToken: string;
+  otpDigits: number;
+  otpDigitOptions: number[];
+  mfaMethods: MfaMethod[];
+  trustDeviceDays: number;
+  redirectTo: string;
   open: boolean;
   setOpen: (value: boolean) => void;
 }
 
-export function LoginTwoFaModal({ email, password, open, setOpen }: IProps) {
+export function LoginTwoFaModal({
+  challengeToken,
+  otpDigits,
+  otpDigitOptions,
+  mfaMethods,
+  trustDeviceDays,
+  redirectTo,
+  open,
+  setOpen,
+}: IProps) {
   const router = useRouter();
 
   const [otp, setOtp] = useState("");
+  // Starts on the authenticator used last, the user can switch to another length
+  const [digits, setDigits] = useState(otpDigits);
   const [activateLoading, setActivateLoading] = useState(false);
   const [disableButton, setDisableButton] = useState(true);
+  // Which fallback replaces the authenticator app code, phone-only accounts start on SMS
+  const [fallback, setFallback] = useState<
+    "recovery" | DeliveryChannel | null
+  >(mfaMethods.includes("totp") ? null : "sms");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [deliveredCode, setDeliveredCode] = useState("");
+  const [sentTo, setSentTo] = useState<Partial<Record<DeliveryChannel, string>>>(
+    {}
+  );
+  const [sendingCode, setSendingCode] = useState(false);
+  // Sent with whichever factor completes the sign-in
+  const [rememberDevice, setRememberDevice] = useState(false);
   const toggleOpenModal = () => {
     setOpen(!open);
   };
@@ -26,45 +68,160 @@ export function LoginTwoFaModal({ email, password, open, setOpen }: IProps) {
   const verify2faToken = async () => {
     setActivateLoading(true);
     try {
-      const verified = await makeApiCallService("/api/twofa-by-email", {
-        method: "PUT",
-        body: {
-          token: otp,
-          email: email,
-        },
+      const response = await makeApiCallService<ILoginUserResponse>(
+        "/api/login/verify",
+        {
+          method: "POST",
+          body: {
+            challengeToken,
+            token: otp,
+            rememberDevice,
+          },
+        }
+      );
+
+      if (response?.response?.meta?.success) {
+        router.push(redirectTo);
+      }
+
+      setActivateLoading(false);
+    } catch (err) {
+      setActivateLoading(false);
+    }
+  };
+
+  const verifyRecoveryCode = async () => {
+    setActivateLoading(true);
+    try {
+      const response = await makeApiCallService<ILoginUserResponse>(
+        "/api/login/recovery",
+        {
+          method: "POST",
+          body: {
+            challengeToken,
+            code: recoveryCode,
+            rememberDevice,
+          },
+        }
+      );
+
+      if (response?.response?.meta?.success) {
+        router.push(redirectTo);
+      }
+
+      setActivateLoading(false);
+    } catch (err) {
+      setActivateLoading(false);
+    }
+  };
+
+  const verifySecurityKey = async () => {
+    setActivateLoading(true);
+    try {
+      const options = await makeApiCallService<
+        IWebauthnOptionsResponse<PublicKeyCredentialRequestOptionsJSON>
+      >("/api/login/webauthn/options", {
+        method: "POST",
+        body: { challengeToken },
       });
 
-      if (verified) {
-        const response = await makeApiCallService<ILoginUserResponse>(
-          "/api/login",
-          {
-            method: "POST",
-            body: {
-              email,
-              password,
-            },
-          }
-        );
-
-        if (response?.response?.meta?.success) {
-          localStorage.setItem("TOKEN", response?.response?.data?.token);
-          router.push("/home");
+      if (!options?.response?.data) {
+        setActivateLoading(false);
+        return;
+      }
+
+      // The browser talks to the key, a cancelled prompt rejects here
+      const credential = await startAuthentication({
+        optionsJSON: options.response.data,
+      });
+
+      const response = await makeApiCallService<ILoginUserResponse>(
+        "/api/login/webauthn",
+        {
+          method: "POST",
+          body: {
+            challengeToken,
+            credential,
+            rememberDevice,
+          },
         }
+      );
+
+      if (response?.response?.meta?.success) {
+        router.push(redirectTo);
       }
 
       setActivateLoading(false);
     } catch (err) {
+      toast({
+        title: "Security key",
+        description: "The security key prompt was cancelled or timed out.",
+        variant: "destructive",
+      });
       setActivateLoading(false);
     }
   };
 
+  const sendDeliveredCode = async (channel: DeliveryChannel) => {
+    setSendingCode(true);
+    const response = await makeApiCallService<IOtpSentResponse>(
+      `/api/login/${channel}/send`,
+      {
+        method: "POST",
+        body: { challengeToken },
+      }
+    );
+    setSendingCode(false);
+
+    const maskedTo = response?.response?.data?.sentTo;
+    if (maskedTo) {
+      setSentTo((current) => ({ ...current, [channel]: maskedTo }));
+    }
+  };
+
+  const verifyDeliveredCode = async (channel: DeliveryChannel) => {
+    setActivateLoading(true);
+    try {
+      const response = await makeApiCallService<ILoginUserResponse>(
+        `/api/login/${channel}`,
+        {
+          method: "POST",
+          body: {
+            challengeToken,
+            code: deliveredCode,
+            rememberDevice,
+          },
+        }
+      );
+
+      if (response?.response?.meta?.success) {
+        router.push(redirectTo);
+      } else {
+        setDeliveredCode("");
+      }
+
+      setActivateLoading(false);
+    } catch (err) {
+      setActivateLoading(false);
+    }
+  };
+
+  const switchToDeliveredCode = (channel: DeliveryChannel) => {
+    setFallback(channel);
+    setDeliveredCode("");
+    // The first code goes out right away, later ones on request
+    if (!sentTo[channel]) {
+      sendDeliveredCode(channel);
+    }
+  };
+
   useEffect(() => {
-    if (otp.length === 6) {
+    if (otp.length === digits) {
       setDisableButton(false);
     } else {
       setDisableButton(true);
     }
-  }, [otp]);
+  }, [otp, digits]);
 
   return (
     <Dialog open={open} onOpenChange={() => toggleOpenModal()}>
@@ -80,15 +237,73 @@ export function LoginTwoFaModal({ email, password, open, setOpen }: IProps) {
                 account by necessitating more than just a password for access.
               </p>
 
-              <div className="mt-2">
-                <div className="mt-4 mb-8">
-                  <p className="font-bold text-[14px] mb-[0.62rem]">
-                    Enter the six digit verification code
-                  </p>
+              {fallback === null && (
+                <div className="mt-2">
+                  <div className="mt-4 mb-8">
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      Enter the {digits} digit verification code
+                    </p>
+                    <div>
+                      <OTPInput
+                        value={otp}
+                        onChange={setOtp}
+                        numInputs={digits}
+                        renderSeparator={<div className="pl-[0.69rem]"></div>}
+                        renderInput={(props: any) => (
+                          <input
+                            {...props}
+                            className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                          />
+                        )}
+                        shouldAutoFocus
+                      />
+                    </div>
+                    <OtpLengthToggle
+                      options={otpDigitOptions}
+                      value={digits}
+                      onChange={(value) => {
+                        setDigits(value);
+                        setOtp("");
+                      }}
+                    />
+                  </div>
                   <div>
+                    <MainButton
+                      text="Activate"
+                      action={verify2faToken}
+                      isLoading={activateLoading}
+                      dataLoadingText="Verifying 2FA..."
+                      disabled={disableButton}
+                    />
+                  </div>
+                  {mfaMethods.includes("webauthn") && (
+                    <p
+                      className="text-primary inline-block mt-6 mr-6 text-sm cursor-pointer select-none"
+                      onClick={() =>
+                        activateLoading ? undefined : verifySecurityKey()
+                      }
+                    >
+                      Use a security key or passkey
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {(fallback === "email" || fallback === "sms") && (
+                <div className="mt-2">
+                  <div className="mt-4 mb-8">
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      {sentTo[fallback]
+                        ? `Enter the 6 digit code sent to ${sentTo[fallback]}`
+                        : sendingCode
+                        ? "Sending a code..."
+                        : fallback === "sms"
+                        ? "Get a 6 digit code by text message"
+                        : "Get a 6 digit code by email"}
+                    </p>
                     <OTPInput
-                      value={otp}
-                      onChange={setOtp}
+                      value={deliveredCode}
+                      onChange={setDeliveredCode}
                       numInputs={6}
                       renderSeparator={<div className="pl-[0.69rem]"></div>}
                       renderInput={(props: any) => (
@@ -100,16 +315,99 @@ export function LoginTwoFaModal({ email, password, open, setOpen }: IProps) {
                       shouldAutoFocus
                     />
                   </div>
+                  <div>
+                    <MainButton
+                      text="Verify code"
+                      action={() => verifyDeliveredCode(fallback)}
+                      isLoading={activateLoading}
+                      dataLoadingText="Verifying code..."
+                      disabled={deliveredCode.length !== 6}
+                    />
+                  </div>
+                  <p
+                    className="text-primary inline-block mt-6 mr-6 text-sm cursor-pointer select-none"
+                    onClick={() =>
+                      sendingCode ? undefined : sendDeliveredCode(fallback)
+                    }
+                  >
+                    {sendingCode
+                      ? "Sending..."
+                      : sentTo[fallback]
+                      ? "Send a new code"
+                      : "Send code"}
+                  </p>
                 </div>
-                <div>
-                  <MainButton
-                    text="Activate"
-                    action={verify2faToken}
-                    isLoading={activateLoading}
-                    dataLoadingText="Verifying 2FA..."
-                    disabled={disableButton}
-                  />
+              )}
+
+              {fallback === "recovery" && (
+                <div className="mt-2">
+                  <div className="mt-4 mb-8">
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      Enter one of your unused recovery codes
+                    </p>
+                    <Input
+                      placeholder="xxxx-xxxx-xxxx"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      className="h-[3.75rem] w-full rounded-large text-black"
+                      autoFocus
+                    />
+                  </div>
+                  <div>
+                    <MainButton
+                      text="Verify recovery code"
+                      action={verifyRecoveryCode}
+                      isLoading={activateLoading}
+                      dataLoadingText="Verifying code..."
+                      disabled={!recoveryCode.trim()}
+                    />
+                  </div>
                 </div>
+              )}
+
+              <label className="flex items-center gap-2 mt-6 text-sm text-[#1f2328] cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={rememberDevice}
+                  onChange={(e) => setRememberDevice(e.target.checked)}
+                  className="accent-primary w-4 h-4"
+                />
+                Remember this device for {trustDeviceDays} days
+              </label>
+
+              <div className="flex flex-wrap gap-x-6">
+                {fallback !== null && mfaMethods.includes("totp") && (
+                  <p
+                    className="text-primary inline-block mt-6 text-sm cursor-pointer select-none"
+                    onClick={() => setFallback(null)}
+                  >
+                    Use your authenticator app instead
+                  </p>
+                )}
+                {fallback !== "sms" && mfaMethods.includes("sms") && (
+                  <p
+                    className="text-primary inline-block mt-6 text-sm cursor-pointer select-none"
+                    onClick={() => switchToDeliveredCode("sms")}
+                  >
+                    Text me a code instead
+                  </p>
+                )}
+                {fallback !== "email" && mfaMethods.includes("email") && (
+                  <p
+                    className="text-primary inline-block mt-6 text-sm cursor-pointer select-none"
+                    onClick={() => switchToDeliveredCode("email")}
+                  >
+                    Email me a code instead
+                  </p>
+                )}
+                {fallback !== "recovery" && (
+                  <p
+                    className="text-primary inline-block mt-6 text-sm cursor-pointer select-none"
+                    onClick={() => setFallback("recovery")}
+                  >
+                    Use a recovery code instead
+                  </p>
+                )}
               </div>
             </div>
           </section>
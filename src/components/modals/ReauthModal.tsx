@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import MainButton from "@/components/common/MainButton";
+import OtpLengthToggle from "@/components/common/OtpLengthToggle";
+import makeApiCallService from "@/service/apiService";
+import OTPInput from "react-otp-input";
+import { Input } from "@/components/ui/input";
+import { IOtpSentResponse, IReauthRequired, IReauthResponse } from "@/types";
+
+interface IProps {
+  // The 403 data of the call that needs a step-up, null keeps the modal closed
+  reauth: IReauthRequired | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// NOTE: Sudo mode prompt, the caller retries its action from onSuccess.
+export function ReauthModal({ reauth, onSuccess, onCancel }: IProps) {
+  const [password, setPassword] = useState("");
+  const [otp, setOtp] = useState("");
+  const [smsSentTo, setSmsSentTo] = useState<string | null>(null);
+  const [sendingSms, setSendingSms] = useState(false);
+  const [loading, setLoading] = useState(false);
+  // Starts on the authenticator used last, the user can switch to another length
+  const [otpDigits, setOtpDigits] = useState(6);
+  const smsRequired = !reauth?.otpRequired && !!reauth?.smsRequired;
+  const disableButton =
+    !password ||
+    (!!reauth?.otpRequired && otp.length !== otpDigits) ||
+    (smsRequired && otp.length !== 6);
+
+  const sendSmsCode = async () => {
+    setSendingSms(true);
+    const response = await makeApiCallService<IOtpSentResponse>(
+      "/api/twofa/sms/send",
+      {
+        method: "POST",
+      }
+    );
+    setSendingSms(false);
+
+    if (response?.response?.data?.sentTo) {
+      setSmsSentTo(response.response.data.sentTo);
+    }
+  };
+
+  const confirmIdentity = async () => {
+    setLoading(true);
+    const response = await makeApiCallService<IReauthResponse>(
+      "/api/reauth",
+      {
+        method: "POST",
+        body: {
+          password,
+          token: reauth?.otpRequired ? otp : undefined,
+          smsCode: smsRequired ? otp : undefined,
+        },
+      }
+    );
+    setLoading(false);
+
+    if (response?.response?.meta?.success) {
+      onSuccess();
+    } else {
+      setOtp("");
+    }
+  };
+
+  // Never keep credentials around once the prompt is gone
+  useEffect(() => {
+    if (!reauth) {
+      setPassword("");
+      setOtp("");
+      setSmsSentTo(null);
+    } else {
+      setOtpDigits(reauth.otpDigits || 6);
+    }
+  }, [reauth]);
+
+  return (
+    <Dialog open={!!reauth} onOpenChange={() => onCancel()}>
+      <DialogContent className="sm:max-w-[40rem] max-h-[500px] md:max-h-full overflow-y-auto pt-8">
+        <div className="flex flex-col items-center mt-4">
+          <section className="w-full">
+            <div className="font-bold flex justify-center text-center">
+              Confirm it&apos;s you
+            </div>
+            <div className="text-[#758494] text-left mt-[1rem]">
+              <p>
+                This action is sensitive. Enter your password
+                {reauth?.otpRequired
+                  ? " and a code from your authenticator"
+                  : smsRequired
+                  ? " and a code texted to your phone"
+                  : ""}{" "}
+                to continue, you will not be asked again for a few minutes.
+              </p>
+              <div className="mt-4">
+                <p className="font-bold text-[14px] mb-[0.62rem]">Password</p>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="h-[3.75rem] w-full rounded-large text-black"
+                  autoFocus
+                />
+              </div>
+              {reauth?.otpRequired && (
+                <div className="mt-4">
+                  <p className="font-bold text-[14px] mb-[0.62rem]">
+                    Enter the {otpDigits} digit verification code
+                  </p>
+                  <OTPInput
+                    value={otp}
+                    onChange={setOtp}
+                    numInputs={otpDigits}
+                    renderSeparator={<div className="pl-[0.69rem]"></div>}
+                    renderInput={(props: any) => (
+                      <input
+                        {...props}
+                        className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                      />
+                    )}
+                  />
+                  <OtpLengthToggle
+                    options={reauth.otpDigitOptions || []}
+                    value={otpDigits}
+                    onChange={(digits) => {
+                      setOtpDigits(digits);
+                      setOtp("");
+                    }}
+                  />
+                </div>
+              )}
+              {smsRequired && (
+                <div className="mt-4">
+                  <p className="font-bold text-[14px] mb-[0.62rem]">
+                    {smsSentTo
+                      ? `Enter the 6 digit code sent to ${smsSentTo}`
+                      : "Get a 6 digit code by text message"}
+                  </p>
+                  <OTPInput
+                    value={otp}
+                    onChange={setOtp}
+                    numInputs={6}
+                    renderSeparator={<div className="pl-[0.69rem]"></div>}
+                    renderInput={(props: any) => (
+                      <input
+                        {...props}
+                        className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                      />
+                    )}
+                  />
+                  <p
+                    className="text-primary inline-block mt-4 text-sm cursor-pointer select-none"
+                    onClick={() => (sendingSms ? undefined : sendSmsCode())}
+                  >
+                    {sendingSms
+                      ? "Sending..."
+                      : smsSentTo
+                      ? "Send a new code"
+                      : "Send code"}
+                  </p>
+                </div>
+              )}
+            </div>
+          </section>
+          <section className="flex justify-center items-center w-full mt-[2rem]">
+            <MainButton
+              text="Confirm"
+              action={confirmIdentity}
+              isLoading={loading}
+              dataLoadingText="Confirming..."
+              disabled={disableButton}
+            />
+          </section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,12 +2,19 @@ import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import MainButton from "@/components/common/MainButton";
 import { useCallback, useEffect, useState } from "react";
 import { Alert, AlertDescription } from "../ui/alert";
-import { AlertCircle, Copy, Download, Printer } from "lucide-react";
+import { AlertCircle, Copy, Printer } from "lucide-react";
 import { Separator } from "../ui/separator";
 import PrintRecoveryCode from "@/components/common/PrintComponent";
 import CopyToClipboard from "react-copy-to-clipboard";
 import RecoveryCode from "../common/RecoveryCode";
+import RecoveryKitDownload from "../common/RecoveryKitDownload";
 import makeApiCallService from "@/service/apiService";
+import {
+  IReauthRequired,
+  IRecoveryCode,
+  IRecoveryCodesResponse,
+} from "@/types";
+import { ReauthModal } from "./ReauthModal";
 
 export function RecoveryCodeModal({
   rerenderParent,
@@ -15,12 +22,25 @@ export function RecoveryCodeModal({
   rerenderParent: () => void;
 }) {
   const [loading, setLoading] = useState(true);
-  const [downloadLoading, setDownloadLoading] = useState(false);
   const [copy, setCopy] = useState(false);
   const [open, setOpen] = useState(false);
-  const [recoveryCodes, setRecoveryCodes] = useState<any>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<IRecoveryCode[] | null>(
+    null
+  );
+  // Plaintext codes, only available right after generation
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<
+    IRecoveryCode[] | null
+  >(null);
+  // Step-up prompt, with the call to replay once the user confirmed
+  const [reauth, setReauth] = useState<{
+    required: IReauthRequired;
+    retry: () => void;
+  } | null>(null);
 
   const toggleOpenModal = () => {
+    if (open) {
+      setNewRecoveryCodes(null);
+    }
     setOpen(!open);
   };
 
@@ -30,51 +50,52 @@ export function RecoveryCodeModal({
 
   const generateNewRecoveryCodes = async () => {
     setLoading(true);
-    await makeApiCallService("/api/recovery-codes", {
-      method: "POST",
-    });
+    const generatedCodes = await makeApiCallService<IRecoveryCodesResponse>(
+      "/api/recovery-codes",
+      {
+        method: "POST",
+        onReauthRequired: (required) =>
+          setReauth({ required, retry: generateNewRecoveryCodes }),
+      }
+    );
+    if (!generatedCodes) {
+      setLoading(false);
+      return;
+    }
+    setNewRecoveryCodes(generatedCodes?.response?.data || null);
     await handleInitialCall();
     rerenderParent();
   };
 
   const handleInitialCall = useCallback(async () => {
-    const recoveryCodes: any = await makeApiCallService("/api/recovery-codes", {
-      method: "GET",
-    });
+    const recoveryCodes = await makeApiCallService<IRecoveryCodesResponse>(
+      "/api/recovery-codes",
+      {
+        method: "GET",
+        onReauthRequired: (required) =>
+          setReauth({ required, retry: handleInitialCall }),
+      }
+    );
     setLoading(false);
-    setRecoveryCodes(recoveryCodes?.response?.data);
+    setRecoveryCodes(recoveryCodes?.response?.data || null);
   }, []);
 
-  const handleDownload = () => {
-    setDownloadLoading(true);
-    const formattedCodes = recoveryCodes?.map((code: any) => code.code);
-    downloadArrayAsTxtFile(formattedCodes as string[]);
-    setDownloadLoading(false);
-  };
-
-  const downloadArrayAsTxtFile = (dataArray: string[]) => {
-    const element = document.createElement("a");
-    const file = new Blob([dataArray.join("\n")], { type: "text/plain" });
-    element.href = URL.createObjectURL(file);
-    element.download = "2fa-security-codes.txt";
-    document.body.appendChild(element);
-    element.click();
-    document.body.removeChild(element);
-  };
-
   useEffect(() => {
     setTimeout(() => {
       setCopy(false);
     }, 1000);
   }, [copy]);
 
+  // Listing the codes needs a step-up, so only ask once the modal is opened
   useEffect(() => {
     async function fetchData() {
       await handleInitialCall();
     }
 
-    fetchData();
-  }, [handleInitialCall]);
+    if (open) {
+      fetchData();
+    }
+  }, [open, handleInitialCall]);
 
   return (
     <Dialog open={open} onOpenChange={() => toggleOpenModal()}>
@@ -102,51 +123,66 @@ export function RecoveryCodeModal({
               </Alert>
             </div>
           </section>
-          <RecoveryCode recoveryCodes={recoveryCodes} />
-          {recoveryCodes?.length ? (
-            <section className="flex justify-aroundmt-8 flex-col gap-4 md:gap-8  md:flex-row mt-4">
-              <div>
-                <MainButton
-                  text="Download"
-                  iconComponent={<Download className="w-4 h-4" />}
-                  classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
-                  action={handleDownload}
-                  isLoading={downloadLoading}
-                  dataLoadingText="Wait..."
-                />
-              </div>
-              <div>
-                <PrintRecoveryCode
-                  contentToPrint={
-                    <RecoveryCode recoveryCodes={recoveryCodes} ignoreBadge />
-                  }
-                  triggerButtonComponent={
-                    <MainButton
-                      text="Print"
-                      iconComponent={<Printer className="w-4 h-4" />}
-                      classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
-                    />
-                  }
-                />
-              </div>
-              <div>
-                <CopyToClipboard
-                  text={
-                    recoveryCodes?.map((code: any) => code.code).join("\n") ||
-                    ""
-                  }
-                >
-                  <div>
-                    <MainButton
-                      text={!copy ? "Copy" : "Copied!"}
-                      iconComponent={<Copy className="w-4 h-4" />}
-                      classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
-                      action={() => triggerCopy()}
-                    />
-                  </div>
-                </CopyToClipboard>
-              </div>
-            </section>
+          {newRecoveryCodes?.length ? (
+            <Alert className="mt-4">
+              <AlertDescription>
+                Save these codes now. They are shown only once, afterwards only
+                a masked version is displayed.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            ""
+          )}
+          <RecoveryCode
+            recoveryCodes={newRecoveryCodes || recoveryCodes}
+            ignoreBadge={!!newRecoveryCodes}
+          />
+          {newRecoveryCodes?.length ? (
+            <>
+              <section className="flex justify-aroundmt-8 flex-col gap-4 md:gap-8  md:flex-row mt-4">
+                <div>
+                  <PrintRecoveryCode
+                    contentToPrint={
+                      <RecoveryCode
+                        recoveryCodes={newRecoveryCodes}
+                        ignoreBadge
+                      />
+                    }
+                    triggerButtonComponent={
+                      <MainButton
+                        text="Print"
+                        iconComponent={<Printer className="w-4 h-4" />}
+                        classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
+                      />
+                    }
+                  />
+                </div>
+                <div>
+                  <CopyToClipboard
+                    text={
+                      newRecoveryCodes?.map((code) => code.code).join("\n") ||
+                      ""
+                    }
+                  >
+                    <div>
+                      <MainButton
+                        text={!copy ? "Copy" : "Copied!"}
+                        iconComponent={<Copy className="w-4 h-4" />}
+                        classes="bg-[#f6f8fa] text-[#24292f] hover:text-white w-[115px] !h-[32px] rounded-[6px] border border-[#1f232826] hover:border-none shadow-none"
+                        action={() => triggerCopy()}
+                      />
+                    </div>
+                  </CopyToClipboard>
+                </div>
+              </section>
+              {newRecoveryCodes[0]?.batchId ? (
+                <div className="mt-4">
+                  <RecoveryKitDownload batchId={newRecoveryCodes[0].batchId} />
+                </div>
+              ) : (
+                ""
+              )}
+            </>
           ) : (
             ""
           )}
@@ -175,6 +211,14 @@ export function RecoveryCodeModal({
             </div>
           </section>
         </div>
+        <ReauthModal
+          reauth={reauth?.required || null}
+          onCancel={() => setReauth(null)}
+          onSuccess={() => {
+            reauth?.retry();
+            setReauth(null);
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
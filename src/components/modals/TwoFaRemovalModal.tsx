@@ -1,28 +1,55 @@
 import { useState } from "react";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import MainButton from "@/components/common/MainButton";
+import OtpLengthToggle from "@/components/common/OtpLengthToggle";
 import makeApiCallService from "@/service/apiService";
+import OTPInput from "react-otp-input";
+import { Input } from "@/components/ui/input";
+import { ReauthModal } from "./ReauthModal";
+import { IReauthRequired } from "@/types";
 
 export function TwofaRemovalModal({
+  otpDigits: initialOtpDigits,
+  otpDigitOptions,
   handleRefresh,
 }: {
+  otpDigits: number;
+  otpDigitOptions: number[];
   handleRefresh: () => void;
 }) {
+  // Starts on the authenticator used last, the user can switch to another length
+  const [otpDigits, setOtpDigits] = useState(initialOtpDigits);
   const [open, setOpen] = useState(false);
   const [activateLoading, setActivateLoading] = useState(false);
+  const [reauth, setReauth] = useState<IReauthRequired | null>(null);
+  const [otp, setOtp] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  // The step-up just spent the current TOTP step, removal needs the next code
+  const [awaitNextCode, setAwaitNextCode] = useState(false);
 
   const toggleOpenModal = () => {
+    if (open) {
+      setOtp("");
+      setRecoveryCode("");
+      setAwaitNextCode(false);
+    }
     setOpen(!open);
   };
 
   const remove2fa = async () => {
     setActivateLoading(true);
     try {
-      await makeApiCallService("/api/twofa", {
+      const response = await makeApiCallService("/api/twofa", {
         method: "DELETE",
+        body: useRecoveryCode ? { recoveryCode } : { token: otp },
+        onReauthRequired: setReauth,
       });
 
       setActivateLoading(false);
+      if (!response) {
+        return;
+      }
       toggleOpenModal();
       handleRefresh();
     } catch (err) {
@@ -60,6 +87,61 @@ export function TwofaRemovalModal({
               </p>
             </div>
           </section>
+          <section className="w-full mt-[2rem] text-[#758494]">
+            {!useRecoveryCode ? (
+              <div>
+                <p className="font-bold text-[14px] mb-[0.62rem]">
+                  {awaitNextCode
+                    ? `Identity confirmed. Wait for the next ${otpDigits} digit code from your authenticator app`
+                    : `Enter the ${otpDigits} digit verification code`}
+                </p>
+                <OTPInput
+                  value={otp}
+                  onChange={setOtp}
+                  numInputs={otpDigits}
+                  renderSeparator={<div className="pl-[0.69rem]"></div>}
+                  renderInput={(props: any) => (
+                    <input
+                      {...props}
+                      className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                    />
+                  )}
+                />
+                <OtpLengthToggle
+                  options={otpDigitOptions}
+                  value={otpDigits}
+                  onChange={(digits) => {
+                    setOtpDigits(digits);
+                    setOtp("");
+                  }}
+                />
+              </div>
+            ) : (
+              <div>
+                <p className="font-bold text-[14px] mb-[0.62rem]">
+                  Enter one of your unused recovery codes
+                </p>
+                <Input
+                  placeholder="xxxx-xxxx-xxxx"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  className="h-[3.75rem] w-full rounded-large text-black"
+                />
+              </div>
+            )}
+
+            <p
+              className="text-primary inline-block mt-6 text-sm cursor-pointer select-none"
+              onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+            >
+              {useRecoveryCode
+                ? "Use your authenticator app instead"
+                : "Use a recovery code instead"}
+            </p>
+            <p className="mt-2 text-sm">
+              Removing 2FA also invalidates all of your recovery codes.
+            </p>
+          </section>
           <section className="flex justify-center items-center w-full mt-[2rem] flex-col gap-8">
             <div>
               <MainButton
@@ -67,10 +149,29 @@ export function TwofaRemovalModal({
                 action={remove2fa}
                 isLoading={activateLoading}
                 dataLoadingText="Removing 2FA..."
+                disabled={
+                  useRecoveryCode
+                    ? !recoveryCode.trim()
+                    : otp.length !== otpDigits
+                }
               />
             </div>
           </section>
         </div>
+        <ReauthModal
+          reauth={reauth}
+          onCancel={() => setReauth(null)}
+          onSuccess={() => {
+            setReauth(null);
+            // A recovery code was not spent yet, retry straight away
+            if (useRecoveryCode) {
+              remove2fa();
+            } else {
+              setOtp("");
+              setAwaitNextCode(true);
+            }
+          }}
+        />
       </DialogContent>
     </Dialog>
   );
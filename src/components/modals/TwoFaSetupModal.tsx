@@ -7,11 +7,17 @@ import { ellipsify } from "@/lib/utils";
 import { Skeleton } from "../ui/skeleton";
 import makeApiCallService from "@/service/apiService";
 import QRCode from "react-qr-code";
+import { Input } from "@/components/ui/input";
+import { ReauthModal } from "./ReauthModal";
+import { IReauthRequired, ITwoFaSetup, ITwoFaSetupResponse } from "@/types";
 
 export function TwofaSetupModal({
   handleRefresh,
+  triggerText = "Setup 2FA",
 }: {
   handleRefresh: () => void;
+  // Also used to enroll a further authenticator once 2FA is on
+  triggerText?: string;
 }) {
   const [loading, setLoading] = useState(true);
   const [copy, setCopy] = useState(false);
@@ -19,9 +25,18 @@ export function TwofaSetupModal({
   const [otp, setOtp] = useState("");
   const [disableButton, setDisableButton] = useState(true);
   const [activateLoading, setActivateLoading] = useState(false);
-  const [twofa, setTwofa] = useState<any>(null);
+  const [twofa, setTwofa] = useState<ITwoFaSetup | null>(null);
+  const [name, setName] = useState("");
+  const [reauth, setReauth] = useState<IReauthRequired | null>(null);
+  // Counter-based tokens (hardware fobs, legacy apps) enroll as HOTP
+  const [otpType, setOtpType] = useState<ITwoFaSetup["type"]>("totp");
+  const digits = twofa?.digits || 6;
 
   const toggleOpenModal = () => {
+    if (open) {
+      setOtp("");
+      setName("");
+    }
     setOpen(!open);
   };
 
@@ -30,15 +45,35 @@ export function TwofaSetupModal({
   };
 
   const handleAdd2fa = async () => {
-    await generate2faSecret();
-    toggleOpenModal();
+    if (await generate2faSecret()) {
+      toggleOpenModal();
+    }
   };
 
-  const generate2faSecret = async () => {
-    const two2fa: any = await makeApiCallService("/api/twofa", {
-      method: "POST",
-    });
-    setTwofa(two2fa?.response?.data);
+  const generate2faSecret = async (type: ITwoFaSetup["type"] = otpType) => {
+    const two2fa = await makeApiCallService<ITwoFaSetupResponse>(
+      "/api/twofa",
+      {
+        method: "POST",
+        body: { type },
+        onReauthRequired: setReauth,
+      }
+    );
+    setTwofa(two2fa?.response?.data || null);
+    if (two2fa?.response?.data) {
+      setLoading(false);
+    }
+
+    return !!two2fa?.response?.data;
+  };
+
+  // A new pending secret is issued, the previous QR code stops being valid
+  const switchOtpType = async (type: ITwoFaSetup["type"]) => {
+    if (type === otpType) return;
+    setOtpType(type);
+    setOtp("");
+    setLoading(true);
+    await generate2faSecret(type);
   };
 
   const handleInitialCall = useCallback(async () => {
@@ -58,14 +93,19 @@ export function TwofaSetupModal({
   const verify2faToken = async () => {
     setActivateLoading(true);
     try {
-      await makeApiCallService("/api/twofa", {
+      const response = await makeApiCallService("/api/twofa", {
         method: "PUT",
         body: {
           token: otp,
+          name: name.trim() || undefined,
         },
       });
 
       setActivateLoading(false);
+      if (!response) {
+        return;
+      }
+      toggleOpenModal();
       handleRefresh();
     } catch (err) {
       setActivateLoading(false);
@@ -73,12 +113,12 @@ export function TwofaSetupModal({
   };
 
   useEffect(() => {
-    if (otp.length === 6) {
+    if (otp.length === digits) {
       setDisableButton(false);
     } else {
       setDisableButton(true);
     }
-  }, [otp]);
+  }, [otp, digits]);
 
   useEffect(() => {
     setTimeout(() => {
@@ -95,117 +135,156 @@ export function TwofaSetupModal({
   }, [handleInitialCall]);
 
   return (
-    <Dialog open={open} onOpenChange={() => toggleOpenModal()}>
-      <DialogTrigger asChild>
-        <p
-          className="text-[#54BD95] font-bold cursor-pointer"
-          onClick={handleAdd2fa}
-        >
-          Setup 2FA
-        </p>
-      </DialogTrigger>
-      <DialogContent className="sm:max-w-[60rem] max-h-[500px] md:max-h-full overflow-y-auto pt-8">
-        <div className="flex flex-col items-center mt-4">
-          <section>
-            <div className="font-bold flex justify-center">
-              Two factor Authentication Setup
-            </div>
-            <div className="text-[#758494] text-center mt-[1rem]">
-              Scan the barcode using your two-factor authentication app on your
-              mobile device and input the verification code.{" "}
-            </div>
-            <div className="text-[#758494] text-center mt-[1rem]">
-              If you are unable to use a barcode, please copy the Setup Key
-              instead.
-            </div>
-          </section>
-          <section className="flex justify-between w-full mt-[2rem] flex-col md:flex-row gap-8">
-            <div>
-              <div>
-                <CopyToClipboard text={twofa?.secretKey || ""}>
-                  <p className="font-bold text-[14px] mb-[0.62rem]">
-                    Copy the SetUp Key
+    <>
+      <Dialog open={open} onOpenChange={() => toggleOpenModal()}>
+        <DialogTrigger asChild>
+          <p
+            className="text-[#54BD95] font-bold cursor-pointer"
+            onClick={handleAdd2fa}
+          >
+            {triggerText}
+          </p>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-[60rem] max-h-[500px] md:max-h-full overflow-y-auto pt-8">
+          <div className="flex flex-col items-center mt-4">
+            <section>
+              <div className="font-bold flex justify-center">
+                Two factor Authentication Setup
+              </div>
+              <div className="text-[#758494] text-center mt-[1rem]">
+                Scan the barcode using your two-factor authentication app on your
+                mobile device and input the verification code.{" "}
+              </div>
+              <div className="text-[#758494] text-center mt-[1rem]">
+                If you are unable to use a barcode, please copy the Setup Key
+                instead.
+              </div>
+              <div className="flex justify-center gap-6 mt-[1rem] select-none">
+                {(["totp", "hotp"] as const).map((type) => (
+                  <p
+                    key={type}
+                    className={`font-bold cursor-pointer ${
+                      otpType === type ? "text-[#54BD95]" : "text-[#858C94]"
+                    }`}
+                    onClick={() => switchOtpType(type)}
+                  >
+                    {type === "totp"
+                      ? "Time-based (authenticator app)"
+                      : "Counter-based (hardware token)"}
                   </p>
-                </CopyToClipboard>
+                ))}
+              </div>
+            </section>
+            <section className="flex justify-between w-full mt-[2rem] flex-col md:flex-row gap-8">
+              <div>
+                <div>
+                  <CopyToClipboard text={twofa?.secretKey || ""}>
+                    <p className="font-bold text-[14px] mb-[0.62rem]">
+                      Copy the SetUp Key
+                    </p>
+                  </CopyToClipboard>
 
-                <div className="border border-[#DDDDDD] p-4 relative rounded-[0.5rem] md:w-[25rem] hidden md:block">
-                  <div className="text-[0.875rem] ">
-                    {twofa?.secretKey ? ellipsify(twofa?.secretKey, 30) : ""}
-                  </div>
+                  <div className="border border-[#DDDDDD] p-4 relative rounded-[0.5rem] md:w-[25rem] hidden md:block">
+                    <div className="text-[0.875rem] ">
+                      {twofa?.secretKey ? ellipsify(twofa?.secretKey, 30) : ""}
+                    </div>
 
-                  <div className="absolute top-3 right-3">
+                    <div className="absolute top-3 right-3">
+                      <CopyToClipboard text={twofa?.secretKey || ""}>
+                        <div>
+                          <MainButton
+                            text={!copy ? "Copy" : "Copied!"}
+                            classes="w-[3.4375rem] !h-[1.75rem] text-[0.625rem] rounded-[0.5rem] bg-white border border-primary text-primary hover:bg-white shadow-none"
+                            action={() => triggerCopy()}
+                          />
+                        </div>
+                      </CopyToClipboard>
+                    </div>
+                  </div>
+                  <div className="block md:hidden">
                     <CopyToClipboard text={twofa?.secretKey || ""}>
                       <div>
                         <MainButton
-                          text={!copy ? "Copy" : "Copied!"}
-                          classes="w-[3.4375rem] !h-[1.75rem] text-[0.625rem] rounded-[0.5rem] bg-white border border-primary text-primary hover:bg-white shadow-none"
+                          text={!copy ? "Copy Secret key" : "Copied!"}
+                          classes="w-[7rem] !h-[1.75rem] text-[0.625rem] rounded-[0.5rem] bg-white border border-primary text-primary hover:bg-white shadow-none"
                           action={() => triggerCopy()}
                         />
                       </div>
                     </CopyToClipboard>
                   </div>
                 </div>
-                <div className="block md:hidden">
-                  <CopyToClipboard text={twofa?.secretKey || ""}>
-                    <div>
-                      <MainButton
-                        text={!copy ? "Copy Secret key" : "Copied!"}
-                        classes="w-[7rem] !h-[1.75rem] text-[0.625rem] rounded-[0.5rem] bg-white border border-primary text-primary hover:bg-white shadow-none"
-                        action={() => triggerCopy()}
-                      />
-                    </div>
-                  </CopyToClipboard>
+                <div className="mt-4">
+                  <p className="font-bold text-[14px] mb-[0.62rem]">
+                    Name this authenticator
+                  </p>
+                  <Input
+                    placeholder="e.g. Work phone"
+                    maxLength={50}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="md:w-[25rem] text-black"
+                  />
+                </div>
+                <div className="mt-4 mb-8">
+                  <p className="font-bold text-[14px] mb-[0.62rem]">
+                    Enter the {digits} digit verification code
+                  </p>
+                  {twofa?.type === "hotp" && (
+                    <p className="text-[#758494] text-[14px] mb-[0.62rem]">
+                      Press the button on your token once and enter the code it
+                      shows.
+                    </p>
+                  )}
+                  <div>
+                    <OTPInput
+                      value={otp}
+                      onChange={setOtp}
+                      numInputs={digits}
+                      renderSeparator={<div className="pl-[0.69rem]"></div>}
+                      renderInput={(props: any) => (
+                        <input
+                          {...props}
+                          className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                        />
+                      )}
+                    />
+                  </div>
                 </div>
-              </div>
-              <div className="mt-4 mb-8">
-                <p className="font-bold text-[14px] mb-[0.62rem]">
-                  Enter the six digit verification code
-                </p>
                 <div>
-                  <OTPInput
-                    value={otp}
-                    onChange={setOtp}
-                    numInputs={6}
-                    renderSeparator={<div className="pl-[0.69rem]"></div>}
-                    renderInput={(props: any) => (
-                      <input
-                        {...props}
-                        className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
-                      />
-                    )}
-                    shouldAutoFocus
+                  <MainButton
+                    text="Activate"
+                    action={verify2faToken}
+                    isLoading={activateLoading}
+                    dataLoadingText="Setting 2FA..."
+                    disabled={disableButton}
                   />
                 </div>
               </div>
-              <div>
-                <MainButton
-                  text="Activate"
-                  action={verify2faToken}
-                  isLoading={activateLoading}
-                  dataLoadingText="Setting 2FA..."
-                  disabled={disableButton}
-                />
-              </div>
-            </div>
-            <div className="flex items-center flex-col select-none">
-              <div>
-                {loading ? (
-                  <Skeleton className="w-[180px] h-[180px] mb-2" />
-                ) : (
-                  <QRCode
-                    value={
-                      `otpauth://totp/TwofaSecurityApp?secret=${twofa?.secretKey}` ||
-                      "Loading"
-                    }
-                    className="w-[200px] h-[200px]"
-                  />
-                )}
+              <div className="flex items-center flex-col select-none">
+                <div>
+                  {loading || !twofa?.otpauthUri ? (
+                    <Skeleton className="w-[180px] h-[180px] mb-2" />
+                  ) : (
+                    <QRCode
+                      value={twofa.otpauthUri}
+                      className="w-[200px] h-[200px]"
+                    />
+                  )}
+                </div>
+                <p className="font-bold">Scan QR code</p>
               </div>
-              <p className="font-bold">Scan QR code</p>
-            </div>
-          </section>
-        </div>
-      </DialogContent>
-    </Dialog>
+            </section>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <ReauthModal
+        reauth={reauth}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          setReauth(null);
+          handleAdd2fa();
+        }}
+      />
+    </>
   );
 }
\ No newline at end of file
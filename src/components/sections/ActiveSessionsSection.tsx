@@ -0,0 +1,172 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ISession, ISessionsResponse } from "@/types";
+import { Skeleton } from "../ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import makeApiCallService from "@/service/apiService";
+import MainButton from "../common/MainButton";
+import SuccessBadge from "../common/SuccessBadge";
+import { toast } from "../ui/use-toast";
+import { useRouter } from "next/navigation";
+
+function ActiveSessionsSection() {
+  const router = useRouter();
+  const [loadingSessions, setLoadingSessions] = useState(true);
+  const [revokingAll, setRevokingAll] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<ISession[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleRefresh = () => {
+    setRefreshKey(Math.random());
+  };
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  const revokeSession = async (session: ISession) => {
+    setRevokingId(session._id);
+    const response = await makeApiCallService(
+      `/api/sessions/${session._id}`,
+      {
+        method: "DELETE",
+      }
+    );
+    setRevokingId(null);
+
+    if (!response) return;
+
+    // Revoking the session in use is the same as signing out
+    if (session.current) {
+      await makeApiCallService("/api/logout", {
+        method: "POST",
+      });
+      router.replace("/login");
+      return;
+    }
+
+    toast({
+      title: "Session revoked",
+      description: `${session.browser} on ${session.os} has been signed out.`,
+    });
+    handleRefresh();
+  };
+
+  const revokeOtherSessions = async () => {
+    setRevokingAll(true);
+    const response: any = await makeApiCallService("/api/sessions", {
+      method: "DELETE",
+    });
+    setRevokingAll(false);
+
+    if (!response) return;
+
+    toast({
+      title: "Signed out everywhere else",
+      description: response?.response?.meta?.message,
+    });
+    handleRefresh();
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      try {
+        const userSessions = await makeApiCallService<ISessionsResponse>(
+          "/api/sessions",
+          {
+            method: "GET",
+          }
+        );
+
+        setSessions(userSessions?.response?.data || []);
+        setLoadingSessions(false);
+      } catch (err) {
+        setLoadingSessions(false);
+      }
+    }
+
+    fetch();
+  }, [refreshKey]);
+
+  return (
+    <section className="mt-[4.44rem]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="text-[#2B3A4B] text-[1.5rem] font-bold">
+            Active sessions
+          </div>
+          <div className="text-[#858C94]">
+            Devices currently signed in to your account. Revoke any session
+            you don&apos;t recognise.
+          </div>
+        </div>
+        <MainButton
+          text="Sign out everywhere else"
+          classes="rounded-full"
+          action={revokeOtherSessions}
+          isLoading={revokingAll}
+          dataLoadingText="Signing out..."
+          disabled={otherSessions.length === 0}
+        />
+      </div>
+
+      <div className="dashboard-card-shadow mt-8 p-[1.25rem]">
+        {loadingSessions ? (
+          <Skeleton className="w-full h-[8rem]" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Browser</TableHead>
+                <TableHead>OS</TableHead>
+                <TableHead>IP address</TableHead>
+                <TableHead>Signed in</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session._id}>
+                  <TableCell className="font-bold text-[#1f2328]">
+                    {session.browser}
+                  </TableCell>
+                  <TableCell>{session.os}</TableCell>
+                  <TableCell>{session.ip || "Unknown"}</TableCell>
+                  <TableCell>
+                    {new Date(session.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(session.lastSeenAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end items-center gap-4">
+                      {session.current && <SuccessBadge text="This device" />}
+                      <p
+                        className="text-[#F47373] font-bold cursor-pointer select-none"
+                        onClick={() =>
+                          revokingId ? undefined : revokeSession(session)
+                        }
+                      >
+                        {revokingId === session._id ? "Revoking..." : "Revoke"}
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default ActiveSessionsSection;
@@ -0,0 +1,334 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  IAuthenticator,
+  IAuthenticatorsResponse,
+  IReauthRequired,
+} from "@/types";
+import { Skeleton } from "../ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Input } from "../ui/input";
+import makeApiCallService from "@/service/apiService";
+import { toast } from "../ui/use-toast";
+import { TwofaSetupModal } from "../modals/TwoFaSetupModal";
+import { ReauthModal } from "../modals/ReauthModal";
+
+// NOTE: Per-device management, disabling 2FA as a whole stays in TwofaRemovalModal.
+function AuthenticatorsSection({
+  handleRefresh,
+}: {
+  handleRefresh: () => void;
+}) {
+  const [loadingAuthenticators, setLoadingAuthenticators] = useState(true);
+  const [authenticators, setAuthenticators] = useState<IAuthenticator[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [resyncId, setResyncId] = useState<string | null>(null);
+  const [resyncCodes, setResyncCodes] = useState({
+    firstCode: "",
+    secondCode: "",
+  });
+  const [reauth, setReauth] = useState<{
+    required: IReauthRequired;
+    authenticator: IAuthenticator;
+  } | null>(null);
+
+  const refreshAuthenticators = () => {
+    setRefreshKey(Math.random());
+  };
+
+  const startRename = (authenticator: IAuthenticator) => {
+    setResyncId(null);
+    setEditingId(authenticator._id);
+    setEditingName(authenticator.name);
+  };
+
+  const saveRename = async (authenticator: IAuthenticator) => {
+    setBusyId(authenticator._id);
+    const response = await makeApiCallService(
+      `/api/twofa/authenticators/${authenticator._id}`,
+      {
+        method: "PUT",
+        body: { name: editingName.trim() },
+      }
+    );
+    setBusyId(null);
+
+    if (!response) return;
+
+    setEditingId(null);
+    refreshAuthenticators();
+  };
+
+  const startResync = (authenticator: IAuthenticator) => {
+    setEditingId(null);
+    setResyncId(authenticator._id);
+    setResyncCodes({ firstCode: "", secondCode: "" });
+  };
+
+  const saveResync = async (authenticator: IAuthenticator) => {
+    setBusyId(authenticator._id);
+    const response = await makeApiCallService(
+      `/api/twofa/authenticators/${authenticator._id}/resync`,
+      {
+        method: "POST",
+        body: resyncCodes,
+      }
+    );
+    setBusyId(null);
+
+    if (!response) return;
+
+    toast({
+      title: "Authenticator resynchronized",
+      description: `${authenticator.name} is back in step with the server.`,
+    });
+    setResyncId(null);
+    refreshAuthenticators();
+  };
+
+  const removeAuthenticator = async (authenticator: IAuthenticator) => {
+    setBusyId(authenticator._id);
+    const response = await makeApiCallService(
+      `/api/twofa/authenticators/${authenticator._id}`,
+      {
+        method: "DELETE",
+        onReauthRequired: (required) =>
+          setReauth({ required, authenticator }),
+      }
+    );
+    setBusyId(null);
+
+    if (!response) return;
+
+    toast({
+      title: "Authenticator removed",
+      description: `${authenticator.name} can no longer be used to sign in.`,
+    });
+    refreshAuthenticators();
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      try {
+        const userAuthenticators =
+          await makeApiCallService<IAuthenticatorsResponse>(
+            "/api/twofa/authenticators",
+            {
+              method: "GET",
+            }
+          );
+
+        setAuthenticators(userAuthenticators?.response?.data || []);
+        setLoadingAuthenticators(false);
+      } catch (err) {
+        setLoadingAuthenticators(false);
+      }
+    }
+
+    fetch();
+  }, [refreshKey]);
+
+  return (
+    <section className="mt-[4.44rem]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="text-[#2B3A4B] text-[1.5rem] font-bold">
+            Authenticators
+          </div>
+          <div className="text-[#858C94]">
+            Any of these apps can complete a sign-in. Add a backup device so
+            losing one phone does not lock you out.
+          </div>
+        </div>
+        <TwofaSetupModal
+          triggerText="Add authenticator"
+          handleRefresh={() => {
+            refreshAuthenticators();
+            handleRefresh();
+          }}
+        />
+      </div>
+
+      <div className="dashboard-card-shadow mt-8 p-[1.25rem]">
+        {loadingAuthenticators ? (
+          <Skeleton className="w-full h-[8rem]" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {authenticators.map((authenticator) => (
+                <TableRow key={authenticator._id}>
+                  <TableCell className="font-bold text-[#1f2328]">
+                    {editingId === authenticator._id ? (
+                      <Input
+                        value={editingName}
+                        maxLength={50}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        autoFocus
+                      />
+                    ) : resyncId === authenticator._id ? (
+                      <div className="flex flex-col gap-2">
+                        <span>{authenticator.name}</span>
+                        {/* Two presses of the token button, in order */}
+                        <Input
+                          placeholder="First code"
+                          inputMode="numeric"
+                          maxLength={authenticator.digits}
+                          value={resyncCodes.firstCode}
+                          onChange={(e) =>
+                            setResyncCodes({
+                              ...resyncCodes,
+                              firstCode: e.target.value.trim(),
+                            })
+                          }
+                          autoFocus
+                        />
+                        <Input
+                          placeholder="Next code"
+                          inputMode="numeric"
+                          maxLength={authenticator.digits}
+                          value={resyncCodes.secondCode}
+                          onChange={(e) =>
+                            setResyncCodes({
+                              ...resyncCodes,
+                              secondCode: e.target.value.trim(),
+                            })
+                          }
+                        />
+                      </div>
+                    ) : (
+                      authenticator.name
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {authenticator.type === "hotp" ? "Counter" : "Time"}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(authenticator.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {authenticator.lastUsedAt
+                      ? new Date(authenticator.lastUsedAt).toLocaleString()
+                      : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end items-center gap-4 select-none">
+                      {editingId === authenticator._id ? (
+                        <>
+                          <p
+                            className="text-primary font-bold cursor-pointer"
+                            onClick={() =>
+                              busyId || !editingName.trim()
+                                ? undefined
+                                : saveRename(authenticator)
+                            }
+                          >
+                            {busyId === authenticator._id ? "Saving..." : "Save"}
+                          </p>
+                          <p
+                            className="text-[#858C94] font-bold cursor-pointer"
+                            onClick={() => setEditingId(null)}
+                          >
+                            Cancel
+                          </p>
+                        </>
+                      ) : resyncId === authenticator._id ? (
+                        <>
+                          <p
+                            className="text-primary font-bold cursor-pointer"
+                            onClick={() =>
+                              busyId ||
+                              resyncCodes.firstCode.length !==
+                                authenticator.digits ||
+                              resyncCodes.secondCode.length !==
+                                authenticator.digits
+                                ? undefined
+                                : saveResync(authenticator)
+                            }
+                          >
+                            {busyId === authenticator._id
+                              ? "Resyncing..."
+                              : "Resync"}
+                          </p>
+                          <p
+                            className="text-[#858C94] font-bold cursor-pointer"
+                            onClick={() => setResyncId(null)}
+                          >
+                            Cancel
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p
+                            className="text-primary font-bold cursor-pointer"
+                            onClick={() => startRename(authenticator)}
+                          >
+                            Rename
+                          </p>
+                          {authenticator.type === "hotp" && (
+                            <p
+                              className="text-primary font-bold cursor-pointer"
+                              onClick={() => startResync(authenticator)}
+                            >
+                              Resync
+                            </p>
+                          )}
+                          {/* The last one can only go by disabling 2FA */}
+                          {authenticators.length > 1 && (
+                            <p
+                              className="text-[#F47373] font-bold cursor-pointer"
+                              onClick={() =>
+                                busyId
+                                  ? undefined
+                                  : removeAuthenticator(authenticator)
+                              }
+                            >
+                              {busyId === authenticator._id
+                                ? "Removing..."
+                                : "Remove"}
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+      <ReauthModal
+        reauth={reauth?.required || null}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          if (reauth) {
+            removeAuthenticator(reauth.authenticator);
+          }
+          setReauth(null);
+        }}
+      />
+    </section>
+  );
+}
+
+export default AuthenticatorsSection;
@@ -2,8 +2,8 @@
 
 import React, { useEffect, useState } from "react";
 import {
-  IRecoveryCode,
-  IRecoveryCodeResponse,
+  IRecoveryCodeStatus,
+  IRecoveryCodeStatusResponse,
   IUserProfileResponse,
   IUserProfileResponseData,
 } from "@/types";
@@ -12,28 +12,53 @@ import makeApiCallService from "@/service/apiService";
 import { RecoveryCodeModal } from "../modals/RecoveryCodeModal";
 import { TwofaRemovalModal } from "../modals/TwoFaRemovalModal";
 import { TwofaSetupModal } from "../modals/TwoFaSetupModal";
+import AuthenticatorsSection from "./AuthenticatorsSection";
+import SecurityKeysSection from "./SecurityKeysSection";
+import EmailCodesSection from "./EmailCodesSection";
+import SmsCodesSection from "./SmsCodesSection";
+import { Alert, AlertDescription, AlertTitle } from "../ui/alert";
+import { AlertCircle } from "lucide-react";
+import { useRouter } from "next/navigation";
 
 function DashboardContentSection() {
+  const router = useRouter();
   const [loadingDashboardContent, setLoadingDashboardContent] = useState(true);
-  const [recoveryCodes, setRecoverycodes] = useState<IRecoveryCode[]>([]);
   const [user, setUser] = useState<IUserProfileResponseData>();
   const [twofa, setTwofa] = useState<any>(null);
   const [refreshKey, setRefreshKey] = useState(0);
-  const userMetric = [
+  const [recoveryCodeStatus, setRecoveryCodeStatus] =
+    useState<IRecoveryCodeStatus>();
+  const userMetric: {
+    iconPath: string;
+    title: string;
+    count: number;
+    detail?: string;
+  }[] = [
     {
       iconPath: "/images/user_alt_icon.png",
       title: "All Recovery codes",
-      count: recoveryCodes?.length,
+      count: recoveryCodeStatus?.total || 0,
     },
     {
       iconPath: "/images/stylish_check_icon.png",
       title: "Valid Codes",
-      count: recoveryCodes?.filter((code) => code.active === false)?.length,
+      count: recoveryCodeStatus?.remaining || 0,
     },
     {
       iconPath: "/images/stylish_check_icon.png",
       title: "Used Codes",
-      count: recoveryCodes?.filter((code) => code.active === true)?.length,
+      count:
+        (recoveryCodeStatus?.total || 0) - (recoveryCodeStatus?.remaining || 0),
+      // Lets users spot a code they did not use themselves
+      detail: recoveryCodeStatus?.lastUsedAt
+        ? `Last used ${new Date(
+            recoveryCodeStatus.lastUsedAt
+          ).toLocaleString()}${
+            recoveryCodeStatus.lastUsedIp
+              ? ` from ${recoveryCodeStatus.lastUsedIp}`
+              : ""
+          }`
+        : undefined,
     },
   ];
 
@@ -56,13 +81,21 @@ function DashboardContentSection() {
           method: "GET",
         });
         setTwofa(userTwofa?.response?.data);
-        const userRecoveryCodes = await makeApiCallService<
-          IRecoveryCodeResponse
-        >("/api/recovery-codes", {
-          method: "GET",
-        });
 
-        setRecoverycodes(userRecoveryCodes?.response?.data as IRecoveryCode[]);
+        // Counts only, listing the codes themselves needs a step-up
+        const status = await makeApiCallService<IRecoveryCodeStatusResponse>(
+          "/api/recovery-codes/status",
+          {
+            method: "GET",
+          }
+        );
+
+        // Backstop for the layout redirect, which is skipped while the access token is being renewed
+        if (status?.response?.data?.regenerationRequired) {
+          router.replace("/recovery-codes/regenerate");
+          return;
+        }
+        setRecoveryCodeStatus(status?.response?.data);
         setLoadingDashboardContent(false);
       } catch (err) {
         setLoadingDashboardContent(false);
@@ -70,7 +103,7 @@ function DashboardContentSection() {
     }
 
     fetch();
-  }, [refreshKey]);
+  }, [refreshKey, router]);
 
   return (
     <section>
@@ -87,6 +120,18 @@ function DashboardContentSection() {
           It&apos;s nice to see you back.
         </div>
       </div>
+      {recoveryCodeStatus?.low && (
+        // Persistent on purpose, it goes away only once new codes are generated
+        <Alert variant="destructive" className="mt-8">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Running low on recovery codes</AlertTitle>
+          <AlertDescription>
+            Only {recoveryCodeStatus.remaining} unused recovery code
+            {recoveryCodeStatus.remaining === 1 ? "" : "s"} left. Open
+            Recovery Codes and generate a new set before you run out.
+          </AlertDescription>
+        </Alert>
+      )}
       <div
         className="flex flex-col md:flex-row justify-between gap-16 mt-[3.69rem] mb-[4.44rem]"
         key={refreshKey}
@@ -115,6 +160,11 @@ function DashboardContentSection() {
                   <span>{metric.count}</span>
                 )}
               </div>
+              {!loadingDashboardContent && metric.detail && (
+                <div className="text-[#A3AED0] text-[0.8rem]">
+                  {metric.detail}
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -123,7 +173,11 @@ function DashboardContentSection() {
       <div className="flex justify-center items-center gap-[18px]">
         <div>
           {twofa?.status ? (
-            <TwofaRemovalModal handleRefresh={handleRefresh} />
+            <TwofaRemovalModal
+              otpDigits={twofa?.digits || 6}
+              otpDigitOptions={twofa?.otpDigitOptions || []}
+              handleRefresh={handleRefresh}
+            />
           ) : (
             <TwofaSetupModal handleRefresh={handleRefresh} />
           )}
@@ -131,6 +185,17 @@ function DashboardContentSection() {
 
         <RecoveryCodeModal rerenderParent={handleRefresh} />
       </div>
+
+      {twofa?.status && (
+        <AuthenticatorsSection key={refreshKey} handleRefresh={handleRefresh} />
+      )}
+
+      {twofa?.status && <SecurityKeysSection key={`keys-${refreshKey}`} />}
+
+      {twofa?.status && <EmailCodesSection key={`email-${refreshKey}`} />}
+
+      {/* Open to everyone, SMS can be the only factor */}
+      <SmsCodesSection key={`sms-${refreshKey}`} handleRefresh={handleRefresh} />
     </section>
   );
 }
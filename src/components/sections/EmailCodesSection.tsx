@@ -0,0 +1,197 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import OTPInput from "react-otp-input";
+import {
+  IEmailOtpStatusResponse,
+  IOtpSentResponse,
+  IReauthRequired,
+} from "@/types";
+import { Skeleton } from "../ui/skeleton";
+import makeApiCallService from "@/service/apiService";
+import { toast } from "../ui/use-toast";
+import MainButton from "../common/MainButton";
+import { ReauthModal } from "../modals/ReauthModal";
+
+// NOTE: Opt-in fallback for a lost phone, sign-ins can then be finished with a code from the inbox.
+function EmailCodesSection() {
+  const [loadingStatus, setLoadingStatus] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [reauth, setReauth] = useState<{
+    required: IReauthRequired;
+    action: "enroll" | "disable";
+  } | null>(null);
+
+  const startEnrollment = async () => {
+    setBusy(true);
+    const response = await makeApiCallService<IOtpSentResponse>(
+      "/api/twofa/email",
+      {
+        method: "POST",
+        onReauthRequired: (required) =>
+          setReauth({ required, action: "enroll" }),
+      }
+    );
+    setBusy(false);
+
+    if (response?.response?.data?.sentTo) {
+      setSentTo(response.response.data.sentTo);
+      setCode("");
+    }
+  };
+
+  const confirmEnrollment = async () => {
+    setBusy(true);
+    const response = await makeApiCallService("/api/twofa/email", {
+      method: "PUT",
+      body: { code },
+    });
+    setBusy(false);
+
+    if (!response) {
+      setCode("");
+      return;
+    }
+
+    toast({
+      title: "Email codes enabled",
+      description: "You can now finish a sign-in with a code sent to your email.",
+    });
+    setSentTo(null);
+    setRefreshKey(Math.random());
+  };
+
+  const disableEmailCodes = async () => {
+    setBusy(true);
+    const response = await makeApiCallService("/api/twofa/email", {
+      method: "DELETE",
+      onReauthRequired: (required) =>
+        setReauth({ required, action: "disable" }),
+    });
+    setBusy(false);
+
+    if (!response) return;
+
+    toast({
+      title: "Email codes disabled",
+      description: "Sign-ins can no longer be finished with an email code.",
+    });
+    setRefreshKey(Math.random());
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      try {
+        const status = await makeApiCallService<IEmailOtpStatusResponse>(
+          "/api/twofa/email",
+          {
+            method: "GET",
+          }
+        );
+
+        setEnabled(!!status?.response?.data?.enabled);
+        setLoadingStatus(false);
+      } catch (err) {
+        setLoadingStatus(false);
+      }
+    }
+
+    fetch();
+  }, [refreshKey]);
+
+  return (
+    <section className="mt-[4.44rem]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="text-[#2B3A4B] text-[1.5rem] font-bold">
+            Email codes
+          </div>
+          <div className="text-[#858C94]">
+            If your phone is not at hand, finish signing in with a one-time
+            code sent to your account email instead of using a recovery code.
+          </div>
+        </div>
+        {!loadingStatus && !sentTo && (
+          <p
+            className={`${
+              enabled ? "text-[#F47373]" : "text-[#54BD95]"
+            } font-bold cursor-pointer whitespace-nowrap select-none`}
+            onClick={() =>
+              busy
+                ? undefined
+                : enabled
+                ? disableEmailCodes()
+                : startEnrollment()
+            }
+          >
+            {busy ? "Please wait..." : enabled ? "Turn off" : "Turn on"}
+          </p>
+        )}
+      </div>
+
+      <div className="dashboard-card-shadow mt-8 p-[1.25rem]">
+        {loadingStatus ? (
+          <Skeleton className="w-full h-[3rem]" />
+        ) : sentTo ? (
+          <div>
+            <p className="font-bold text-[14px] mb-[0.62rem]">
+              Enter the 6 digit code sent to {sentTo}
+            </p>
+            <OTPInput
+              value={code}
+              onChange={setCode}
+              numInputs={6}
+              renderSeparator={<div className="pl-[0.69rem]"></div>}
+              renderInput={(props: any) => (
+                <input
+                  {...props}
+                  className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                />
+              )}
+              shouldAutoFocus
+            />
+            <div className="flex items-center gap-6 mt-6">
+              <MainButton
+                text="Confirm"
+                action={confirmEnrollment}
+                isLoading={busy}
+                dataLoadingText="Confirming..."
+                disabled={code.length !== 6}
+              />
+              <p
+                className="text-[#858C94] font-bold cursor-pointer select-none"
+                onClick={() => setSentTo(null)}
+              >
+                Cancel
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="text-[#1f2328]">
+            {enabled
+              ? "Email codes are on. They expire after a few minutes and work once."
+              : "Email codes are off."}
+          </div>
+        )}
+      </div>
+      <ReauthModal
+        reauth={reauth?.required || null}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          if (reauth?.action === "enroll") {
+            startEnrollment();
+          } else if (reauth?.action === "disable") {
+            disableEmailCodes();
+          }
+          setReauth(null);
+        }}
+      />
+    </section>
+  );
+}
+
+export default EmailCodesSection;
@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { INotification, INotificationsResponse } from "@/types";
+import makeApiCallService from "@/service/apiService";
+import { Alert, AlertDescription } from "../ui/alert";
+import { Bell, X } from "lucide-react";
+
+function NotificationsSection() {
+  const [notifications, setNotifications] = useState<INotification[]>([]);
+
+  const markAsRead = async (notification: INotification) => {
+    const response = await makeApiCallService(
+      `/api/notifications/${notification._id}`,
+      {
+        method: "PUT",
+      }
+    );
+
+    if (!response) return;
+
+    setNotifications((current) =>
+      current.filter((item) => item._id !== notification._id)
+    );
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      const response = await makeApiCallService<INotificationsResponse>(
+        "/api/notifications",
+        {
+          method: "GET",
+        }
+      );
+      setNotifications(response?.response?.data || []);
+    }
+
+    fetch();
+  }, []);
+
+  if (!notifications.length) return null;
+
+  return (
+    <section className="mt-8 flex flex-col gap-4">
+      {notifications.map((notification) => (
+        <Alert key={notification._id} className="pr-12">
+          <Bell className="h-4 w-4" />
+          <AlertDescription>
+            <span>{notification.message}</span>
+            <span className="block text-[#758494] text-[0.8rem] mt-1">
+              {new Date(notification.createdAt).toLocaleString()}
+            </span>
+          </AlertDescription>
+          <button
+            className="absolute top-4 right-4 !pl-0 text-[#758494] hover:text-[#1B2559]"
+            onClick={() => markAsRead(notification)}
+            aria-label="Dismiss notification"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </Alert>
+      ))}
+    </section>
+  );
+}
+
+export default NotificationsSection;
@@ -0,0 +1,303 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  IReauthRequired,
+  IWebauthnCredential,
+  IWebauthnCredentialsResponse,
+  IWebauthnOptionsResponse,
+} from "@/types";
+import { Skeleton } from "../ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Input } from "../ui/input";
+import makeApiCallService from "@/service/apiService";
+import { toast } from "../ui/use-toast";
+import { ReauthModal } from "../modals/ReauthModal";
+import {
+  PublicKeyCredentialCreationOptionsJSON,
+  startRegistration,
+} from "@simplewebauthn/browser";
+
+type PendingAction =
+  | { kind: "add" }
+  | { kind: "remove"; credential: IWebauthnCredential };
+
+// NOTE: Security keys and passkeys are extra second factors, the authenticator app stays enrolled.
+function SecurityKeysSection() {
+  const [loadingCredentials, setLoadingCredentials] = useState(true);
+  const [credentials, setCredentials] = useState<IWebauthnCredential[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [newName, setNewName] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reauth, setReauth] = useState<{
+    required: IReauthRequired;
+    action: PendingAction;
+  } | null>(null);
+
+  const refreshCredentials = () => {
+    setRefreshKey(Math.random());
+  };
+
+  const addSecurityKey = async () => {
+    setAdding(true);
+    const options = await makeApiCallService<
+      IWebauthnOptionsResponse<PublicKeyCredentialCreationOptionsJSON>
+    >("/api/webauthn/register/options", {
+      method: "POST",
+      onReauthRequired: (required) =>
+        setReauth({ required, action: { kind: "add" } }),
+    });
+
+    if (!options?.response?.data) {
+      setAdding(false);
+      return;
+    }
+
+    let credential;
+    try {
+      // The browser talks to the key, a cancelled prompt rejects here
+      credential = await startRegistration({
+        optionsJSON: options.response.data,
+      });
+    } catch (err) {
+      toast({
+        title: "Security key",
+        description: "The security key prompt was cancelled or timed out.",
+        variant: "destructive",
+      });
+      setAdding(false);
+      return;
+    }
+
+    const response = await makeApiCallService("/api/webauthn/register", {
+      method: "POST",
+      body: { credential, name: newName.trim() || undefined },
+    });
+    setAdding(false);
+
+    if (!response) return;
+
+    toast({
+      title: "Security key added",
+      description: "It can now complete a sign-in instead of a code.",
+    });
+    setNewName("");
+    refreshCredentials();
+  };
+
+  const startRename = (credential: IWebauthnCredential) => {
+    setEditingId(credential._id);
+    setEditingName(credential.name);
+  };
+
+  const saveRename = async (credential: IWebauthnCredential) => {
+    setBusyId(credential._id);
+    const response = await makeApiCallService(
+      `/api/webauthn/credentials/${credential._id}`,
+      {
+        method: "PUT",
+        body: { name: editingName.trim() },
+      }
+    );
+    setBusyId(null);
+
+    if (!response) return;
+
+    setEditingId(null);
+    refreshCredentials();
+  };
+
+  const removeCredential = async (credential: IWebauthnCredential) => {
+    setBusyId(credential._id);
+    const response = await makeApiCallService(
+      `/api/webauthn/credentials/${credential._id}`,
+      {
+        method: "DELETE",
+        onReauthRequired: (required) =>
+          setReauth({ required, action: { kind: "remove", credential } }),
+      }
+    );
+    setBusyId(null);
+
+    if (!response) return;
+
+    toast({
+      title: "Security key removed",
+      description: `${credential.name} can no longer be used to sign in.`,
+    });
+    refreshCredentials();
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      try {
+        const userCredentials =
+          await makeApiCallService<IWebauthnCredentialsResponse>(
+            "/api/webauthn/credentials",
+            {
+              method: "GET",
+            }
+          );
+
+        setCredentials(userCredentials?.response?.data || []);
+        setLoadingCredentials(false);
+      } catch (err) {
+        setLoadingCredentials(false);
+      }
+    }
+
+    fetch();
+  }, [refreshKey]);
+
+  return (
+    <section className="mt-[4.44rem]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="text-[#2B3A4B] text-[1.5rem] font-bold">
+            Security keys and passkeys
+          </div>
+          <div className="text-[#858C94]">
+            Sign in with a hardware key, your phone or your computer&apos;s
+            fingerprint or face unlock instead of typing a code.
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <Input
+            placeholder="Security key"
+            value={newName}
+            maxLength={50}
+            onChange={(e) => setNewName(e.target.value)}
+            className="w-[12rem]"
+          />
+          <p
+            className="text-[#54BD95] font-bold cursor-pointer whitespace-nowrap select-none"
+            onClick={() => (adding ? undefined : addSecurityKey())}
+          >
+            {adding ? "Waiting for key..." : "Add security key"}
+          </p>
+        </div>
+      </div>
+
+      <div className="dashboard-card-shadow mt-8 p-[1.25rem]">
+        {loadingCredentials ? (
+          <Skeleton className="w-full h-[8rem]" />
+        ) : !credentials.length ? (
+          <div className="text-[#858C94] text-center py-6">
+            No security keys registered yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {credentials.map((credential) => (
+                <TableRow key={credential._id}>
+                  <TableCell className="font-bold text-[#1f2328]">
+                    {editingId === credential._id ? (
+                      <Input
+                        value={editingName}
+                        maxLength={50}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        autoFocus
+                      />
+                    ) : (
+                      credential.name
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {/* Synced passkeys live in a cloud account, hardware keys do not */}
+                    {credential.deviceType === "multiDevice"
+                      ? "Synced passkey"
+                      : "Device-bound key"}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(credential.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {credential.lastUsedAt
+                      ? new Date(credential.lastUsedAt).toLocaleString()
+                      : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end items-center gap-4 select-none">
+                      {editingId === credential._id ? (
+                        <>
+                          <p
+                            className="text-primary font-bold cursor-pointer"
+                            onClick={() =>
+                              busyId || !editingName.trim()
+                                ? undefined
+                                : saveRename(credential)
+                            }
+                          >
+                            {busyId === credential._id ? "Saving..." : "Save"}
+                          </p>
+                          <p
+                            className="text-[#858C94] font-bold cursor-pointer"
+                            onClick={() => setEditingId(null)}
+                          >
+                            Cancel
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p
+                            className="text-primary font-bold cursor-pointer"
+                            onClick={() => startRename(credential)}
+                          >
+                            Rename
+                          </p>
+                          <p
+                            className="text-[#F47373] font-bold cursor-pointer"
+                            onClick={() =>
+                              busyId ? undefined : removeCredential(credential)
+                            }
+                          >
+                            {busyId === credential._id
+                              ? "Removing..."
+                              : "Remove"}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+      <ReauthModal
+        reauth={reauth?.required || null}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          if (reauth?.action.kind === "add") {
+            addSecurityKey();
+          } else if (reauth?.action.kind === "remove") {
+            removeCredential(reauth.action.credential);
+          }
+          setReauth(null);
+        }}
+      />
+    </section>
+  );
+}
+
+export default SecurityKeysSection;
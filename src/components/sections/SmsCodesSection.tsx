@@ -0,0 +1,345 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import OTPInput from "react-otp-input";
+import {
+  IOtpSentResponse,
+  IPhoneFactor,
+  IPhoneFactorResponse,
+  IReauthRequired,
+} from "@/types";
+import { Skeleton } from "../ui/skeleton";
+import { Input } from "../ui/input";
+import makeApiCallService from "@/service/apiService";
+import { toast } from "../ui/use-toast";
+import MainButton from "../common/MainButton";
+import { ReauthModal } from "../modals/ReauthModal";
+
+// NOTE: For users who cannot install an authenticator app, a verified phone works as the second factor.
+function SmsCodesSection({ handleRefresh }: { handleRefresh: () => void }) {
+  const [loadingFactor, setLoadingFactor] = useState(true);
+  const [phoneFactor, setPhoneFactor] = useState<IPhoneFactor | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  // The last factor only goes with a fresh texted code or a recovery code
+  const [confirmingRemoval, setConfirmingRemoval] = useState(false);
+  const [removalSentTo, setRemovalSentTo] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [reauth, setReauth] = useState<{
+    required: IReauthRequired;
+    action: "enroll" | "remove";
+  } | null>(null);
+
+  const refreshFactor = () => {
+    setRefreshKey(Math.random());
+  };
+
+  const startEnrollment = async () => {
+    setBusy(true);
+    const response = await makeApiCallService<IOtpSentResponse>(
+      "/api/twofa/sms",
+      {
+        method: "POST",
+        body: { phoneNumber: phoneNumber.trim() },
+        onReauthRequired: (required) =>
+          setReauth({ required, action: "enroll" }),
+      }
+    );
+    setBusy(false);
+
+    if (response?.response?.data?.sentTo) {
+      setSentTo(response.response.data.sentTo);
+      setCode("");
+    }
+  };
+
+  const confirmEnrollment = async () => {
+    setBusy(true);
+    const response = await makeApiCallService("/api/twofa/sms", {
+      method: "PUT",
+      body: { code },
+    });
+    setBusy(false);
+
+    if (!response) {
+      setCode("");
+      return;
+    }
+
+    toast({
+      title: "Phone number verified",
+      description: "Sign-ins can now be finished with a code sent by SMS.",
+    });
+    setSentTo(null);
+    setPhoneNumber("");
+    refreshFactor();
+    handleRefresh();
+  };
+
+  const sendRemovalCode = async () => {
+    setBusy(true);
+    const response = await makeApiCallService<IOtpSentResponse>(
+      "/api/twofa/sms/send",
+      {
+        method: "POST",
+        body: { purpose: "phone_removal" },
+      }
+    );
+    setBusy(false);
+
+    if (response?.response?.data?.sentTo) {
+      setRemovalSentTo(response.response.data.sentTo);
+      setCode("");
+    }
+  };
+
+  const closeRemoval = () => {
+    setConfirmingRemoval(false);
+    setRemovalSentTo(null);
+    setUseRecoveryCode(false);
+    setRecoveryCode("");
+    setCode("");
+  };
+
+  const removeFactor = async () => {
+    if (phoneFactor?.lastFactor && !confirmingRemoval) {
+      setConfirmingRemoval(true);
+      return;
+    }
+
+    setBusy(true);
+    const response = await makeApiCallService("/api/twofa/sms", {
+      method: "DELETE",
+      body: confirmingRemoval
+        ? useRecoveryCode
+          ? { recoveryCode: recoveryCode.trim() }
+          : { smsCode: code }
+        : undefined,
+      onReauthRequired: (required) =>
+        setReauth({ required, action: "remove" }),
+    });
+    setBusy(false);
+
+    if (!response) return;
+
+    toast({
+      title: "Phone number removed",
+      description: confirmingRemoval
+        ? "Two-factor authentication is off and your recovery codes were invalidated."
+        : "Sign-in codes will no longer be sent by SMS.",
+    });
+    closeRemoval();
+    refreshFactor();
+    handleRefresh();
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      try {
+        const factor = await makeApiCallService<IPhoneFactorResponse>(
+          "/api/twofa/sms",
+          {
+            method: "GET",
+          }
+        );
+
+        setPhoneFactor(factor?.response?.data || null);
+        setLoadingFactor(false);
+      } catch (err) {
+        setLoadingFactor(false);
+      }
+    }
+
+    fetch();
+  }, [refreshKey]);
+
+  const enrolled = !!phoneFactor?.status;
+
+  return (
+    <section className="mt-[4.44rem]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="text-[#2B3A4B] text-[1.5rem] font-bold">
+            Text message codes
+          </div>
+          <div className="text-[#858C94]">
+            No authenticator app? Finish signing in with a one-time code sent
+            to your phone by SMS.
+          </div>
+        </div>
+        {!loadingFactor && enrolled && !confirmingRemoval && (
+          <p
+            className="text-[#F47373] font-bold cursor-pointer whitespace-nowrap select-none"
+            onClick={() => (busy ? undefined : removeFactor())}
+          >
+            {busy ? "Removing..." : "Remove"}
+          </p>
+        )}
+      </div>
+
+      <div className="dashboard-card-shadow mt-8 p-[1.25rem]">
+        {loadingFactor ? (
+          <Skeleton className="w-full h-[3rem]" />
+        ) : enrolled && confirmingRemoval ? (
+          <div>
+            <p className="text-[#1f2328] mb-4">
+              This is your only second factor, removing it turns two-factor
+              authentication off and invalidates your recovery codes.
+            </p>
+            {useRecoveryCode ? (
+              <>
+                <p className="font-bold text-[14px] mb-[0.62rem]">
+                  Enter one of your unused recovery codes
+                </p>
+                <Input
+                  placeholder="xxxx-xxxx-xxxx"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  className="h-[3.75rem] md:w-[20rem] rounded-large text-black"
+                />
+              </>
+            ) : removalSentTo ? (
+              <>
+                <p className="font-bold text-[14px] mb-[0.62rem]">
+                  Enter the 6 digit code sent to {removalSentTo}
+                </p>
+                <OTPInput
+                  value={code}
+                  onChange={setCode}
+                  numInputs={6}
+                  renderSeparator={<div className="pl-[0.69rem]"></div>}
+                  renderInput={(props: any) => (
+                    <input
+                      {...props}
+                      className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                    />
+                  )}
+                  shouldAutoFocus
+                />
+              </>
+            ) : (
+              <MainButton
+                text="Text me a code"
+                action={sendRemovalCode}
+                isLoading={busy}
+                dataLoadingText="Sending..."
+              />
+            )}
+            <div className="flex flex-wrap items-center gap-6 mt-6">
+              {(useRecoveryCode || removalSentTo) && (
+                <MainButton
+                  text="Remove"
+                  action={removeFactor}
+                  isLoading={busy}
+                  dataLoadingText="Removing..."
+                  disabled={
+                    useRecoveryCode ? !recoveryCode.trim() : code.length !== 6
+                  }
+                />
+              )}
+              <p
+                className="text-primary text-sm cursor-pointer select-none"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+              >
+                {useRecoveryCode
+                  ? "Use a texted code instead"
+                  : "Use a recovery code instead"}
+              </p>
+              <p
+                className="text-[#858C94] font-bold cursor-pointer select-none"
+                onClick={closeRemoval}
+              >
+                Cancel
+              </p>
+            </div>
+          </div>
+        ) : enrolled ? (
+          <div className="text-[#1f2328]">
+            Codes are sent to{" "}
+            <span className="font-bold">{phoneFactor?.phoneNumber}</span>. Last
+            used{" "}
+            {phoneFactor?.lastUsedAt
+              ? new Date(phoneFactor.lastUsedAt).toLocaleString()
+              : "never"}
+            .
+          </div>
+        ) : sentTo ? (
+          <div>
+            <p className="font-bold text-[14px] mb-[0.62rem]">
+              Enter the 6 digit code sent to {sentTo}
+            </p>
+            <OTPInput
+              value={code}
+              onChange={setCode}
+              numInputs={6}
+              renderSeparator={<div className="pl-[0.69rem]"></div>}
+              renderInput={(props: any) => (
+                <input
+                  {...props}
+                  className="border-[1.75px] border-[#E4E7EC] focus:!outline-primary  !w-[3rem] !h-[3rem] md:!w-[4rem] md:!h-[4rem] text-black rounded-sm md:rounded-[1rem] font-bold md:text-[1.5rem]"
+                />
+              )}
+              shouldAutoFocus
+            />
+            <div className="flex items-center gap-6 mt-6">
+              <MainButton
+                text="Confirm"
+                action={confirmEnrollment}
+                isLoading={busy}
+                dataLoadingText="Confirming..."
+                disabled={code.length !== 6}
+              />
+              <p
+                className="text-[#858C94] font-bold cursor-pointer select-none"
+                onClick={() => setSentTo(null)}
+              >
+                Use another number
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <p className="font-bold text-[14px] mb-[0.62rem]">
+              Phone number, in international format
+            </p>
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <Input
+                type="tel"
+                autoComplete="tel"
+                placeholder="+14155550123"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                className="h-[3.75rem] md:w-[20rem] rounded-large text-black"
+              />
+              <MainButton
+                text="Send code"
+                action={startEnrollment}
+                isLoading={busy}
+                dataLoadingText="Sending..."
+                disabled={!phoneNumber.trim()}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+      <ReauthModal
+        reauth={reauth?.required || null}
+        onCancel={() => setReauth(null)}
+        onSuccess={() => {
+          if (reauth?.action === "enroll") {
+            startEnrollment();
+          } else if (reauth?.action === "remove") {
+            removeFactor();
+          }
+          setReauth(null);
+        }}
+      />
+    </section>
+  );
+}
+
+export default SmsCodesSection;
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ITrustedDevice, ITrustedDevicesResponse } from "@/types";
+import { Skeleton } from "../ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import makeApiCallService from "@/service/apiService";
+import MainButton from "../common/MainButton";
+import SuccessBadge from "../common/SuccessBadge";
+import { toast } from "../ui/use-toast";
+
+// NOTE: Browsers remembered at sign-in, revoking one only brings the second factor back.
+function TrustedDevicesSection() {
+  const [loadingDevices, setLoadingDevices] = useState(true);
+  const [revokingAll, setRevokingAll] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [devices, setDevices] = useState<ITrustedDevice[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const handleRefresh = () => {
+    setRefreshKey(Math.random());
+  };
+
+  const revokeDevice = async (device: ITrustedDevice) => {
+    setRevokingId(device._id);
+    const response = await makeApiCallService(
+      `/api/trusted-devices/${device._id}`,
+      {
+        method: "DELETE",
+      }
+    );
+    setRevokingId(null);
+
+    if (!response) return;
+
+    toast({
+      title: "Device forgotten",
+      description: `${device.browser} on ${device.os} will ask for a second factor again.`,
+    });
+    handleRefresh();
+  };
+
+  const revokeAllDevices = async () => {
+    setRevokingAll(true);
+    const response: any = await makeApiCallService("/api/trusted-devices", {
+      method: "DELETE",
+    });
+    setRevokingAll(false);
+
+    if (!response) return;
+
+    toast({
+      title: "All devices forgotten",
+      description: response?.response?.meta?.message,
+    });
+    handleRefresh();
+  };
+
+  useEffect(() => {
+    async function fetch() {
+      try {
+        const trustedDevices =
+          await makeApiCallService<ITrustedDevicesResponse>(
+            "/api/trusted-devices",
+            {
+              method: "GET",
+            }
+          );
+
+        setDevices(trustedDevices?.response?.data || []);
+        setLoadingDevices(false);
+      } catch (err) {
+        setLoadingDevices(false);
+      }
+    }
+
+    fetch();
+  }, [refreshKey]);
+
+  return (
+    <section className="mt-[4.44rem]">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <div className="text-[#2B3A4B] text-[1.5rem] font-bold">
+            Trusted devices
+          </div>
+          <div className="text-[#858C94]">
+            Browsers you asked us to remember skip the second factor when
+            signing in. Forget any you no longer use.
+          </div>
+        </div>
+        <MainButton
+          text="Forget all devices"
+          classes="rounded-full"
+          action={revokeAllDevices}
+          isLoading={revokingAll}
+          dataLoadingText="Forgetting..."
+          disabled={devices.length === 0}
+        />
+      </div>
+
+      <div className="dashboard-card-shadow mt-8 p-[1.25rem]">
+        {loadingDevices ? (
+          <Skeleton className="w-full h-[8rem]" />
+        ) : devices.length === 0 ? (
+          <div className="text-[#1f2328]">
+            No trusted devices. Tick &quot;Remember this device&quot; when
+            signing in to add one.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Browser</TableHead>
+                <TableHead>OS</TableHead>
+                <TableHead>IP address</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Trusted until</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {devices.map((device) => (
+                <TableRow key={device._id}>
+                  <TableCell className="font-bold text-[#1f2328]">
+                    {device.browser}
+                  </TableCell>
+                  <TableCell>{device.os}</TableCell>
+                  <TableCell>{device.ip || "Unknown"}</TableCell>
+                  <TableCell>
+                    {device.lastUsedAt
+                      ? new Date(device.lastUsedAt).toLocaleString()
+                      : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    {new Date(device.expiresAt).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end items-center gap-4">
+                      {device.current && <SuccessBadge text="This device" />}
+                      <p
+                        className="text-[#F47373] font-bold cursor-pointer select-none"
+                        onClick={() =>
+                          revokingId ? undefined : revokeDevice(device)
+                        }
+                      >
+                        {revokingId === device._id ? "Forgetting..." : "Forget"}
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default TrustedDevicesSection;
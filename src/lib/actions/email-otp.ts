@@ -0,0 +1,155 @@
+"use server";
+
+import { connectToDatabase } from "../database/connection/mongoose";
+import EmailOtp from "../database/models/email-otp.model";
+import User from "../database/models/users.model";
+import Twofa from "../database/models/twofa.model";
+import {
+  buildEmailOtpMessage,
+  emailOtpMatches,
+  generateEmailOtp,
+  getEmailOtpTtlMinutes,
+  hashEmailOtp,
+  maskEmail,
+} from "../email-otp";
+import { sendMail } from "../mailer";
+import { TooManyRequestsError } from "../errors";
+import { otpRules, withRateLimit } from "../rate-limit";
+import { ClientInfo } from "@/types";
+import { createNotification } from "./notifications";
+
+type EmailOtpPurpose = "login" | "enrollment";
+
+// A mailbox is not an OTP oracle, a code takes this many wrong guesses before it is burnt
+const MAX_ATTEMPTS_PER_CODE = 5;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// NOTE: Mails a fresh code, returns the masked address it went to.
+export async function sendEmailOtp(
+  userId: string,
+  purpose: EmailOtpPurpose
+): Promise<string> {
+  await connectToDatabase();
+
+  const user = await User.findOne({ _id: userId });
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const existing = await EmailOtp.findOne({ userId, purpose });
+  if (existing) {
+    const waitMs = existing.sentAt.getTime() + RESEND_COOLDOWN_MS - Date.now();
+    if (waitMs > 0) {
+      throw new TooManyRequestsError(
+        "A code was sent a moment ago, please wait before requesting another",
+        Math.ceil(waitMs / 1000)
+      );
+    }
+  }
+
+  const code = generateEmailOtp();
+  const now = new Date();
+
+  await EmailOtp.findOneAndUpdate(
+    { userId, purpose },
+    {
+      codeHash: hashEmailOtp(userId, code),
+      attempts: 0,
+      sentAt: now,
+      expiresAt: new Date(now.getTime() + getEmailOtpTtlMinutes() * 60 * 1000),
+    },
+    { upsert: true }
+  );
+
+  await sendMail(buildEmailOtpMessage(user.email, code, purpose));
+
+  return maskEmail(user.email);
+}
+
+// Throws unless the code is valid, callers wrap this in the OTP rate limits
+export async function verifyEmailOtp(
+  userId: string,
+  purpose: EmailOtpPurpose,
+  code: string
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const stored = await EmailOtp.findOne({
+    userId,
+    purpose,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!stored) {
+    throw new Error("Invalid or expired email code, request a new one");
+  }
+
+  if (!emailOtpMatches(userId, code, stored.codeHash)) {
+    const updated = await EmailOtp.findOneAndUpdate(
+      { _id: stored._id },
+      { $inc: { attempts: 1 } },
+      { new: true }
+    );
+
+    if (updated && updated.attempts >= MAX_ATTEMPTS_PER_CODE) {
+      await EmailOtp.deleteOne({ _id: stored._id });
+    }
+
+    throw new Error("Invalid email code");
+  }
+
+  // Single use, deleting it first means a concurrent request with the same code loses
+  const consumed = await EmailOtp.findOneAndDelete({ _id: stored._id });
+  if (!consumed) {
+    throw new Error("Invalid or expired email code, request a new one");
+  }
+
+  return true;
+}
+
+export async function isEmailOtpEnabled(userId: string): Promise<boolean> {
+  await connectToDatabase();
+
+  return !!(await User.exists({ _id: userId, emailOtpEnabled: true }));
+}
+
+// NOTE: Email codes back up the authenticator app, they cannot be the only second factor.
+export async function startEmailOtpEnrollment(userId: string): Promise<string> {
+  await connectToDatabase();
+
+  if (!(await Twofa.exists({ userId, status: true }))) {
+    throw new Error(
+      "Enable 2FA with an authenticator app before turning on email codes"
+    );
+  }
+
+  return sendEmailOtp(userId, "enrollment");
+}
+
+// The code proves the address can receive mail before sign-ins rely on it
+export async function enableEmailOtp(
+  userId: string,
+  code: string,
+  client: ClientInfo
+): Promise<void> {
+  await connectToDatabase();
+
+  await withRateLimit(otpRules(client.ip, userId), () =>
+    verifyEmailOtp(userId, "enrollment", code)
+  );
+
+  await User.findOneAndUpdate({ _id: userId }, { emailOtpEnabled: true });
+
+  await createNotification(
+    userId,
+    "email_otp_enabled",
+    "Sign-in codes can now be sent to your email. If this was not you, change your password and turn them off."
+  );
+}
+
+export async function disableEmailOtp(userId: string): Promise<void> {
+  await connectToDatabase();
+
+  await User.findOneAndUpdate({ _id: userId }, { emailOtpEnabled: false });
+  await EmailOtp.deleteMany({ userId });
+}
@@ -0,0 +1,67 @@
+"use server";
+
+import { connectToDatabase } from "../database/connection/mongoose";
+import Notification from "../database/models/notification.model";
+import { INotification } from "@/types";
+
+// NOTE: One unread notification per type, a repeated event refreshes it instead of stacking up.
+export async function createNotification(
+  userId: string,
+  type: string,
+  message: string
+): Promise<void> {
+  await connectToDatabase();
+
+  await Notification.updateOne(
+    { userId, type, readAt: null },
+    { message },
+    { upsert: true }
+  );
+}
+
+export async function getUnreadNotifications(
+  userId: string
+): Promise<INotification[]> {
+  await connectToDatabase();
+
+  const notifications = await Notification.find({
+    userId,
+    readAt: null,
+  }).sort({ updatedAt: -1 });
+
+  return notifications.map((notification) => ({
+    _id: notification._id.toString(),
+    type: notification.type,
+    message: notification.message,
+    createdAt: notification.updatedAt,
+  }));
+}
+
+export async function markNotificationRead(
+  userId: string,
+  notificationId: string
+): Promise<void> {
+  await connectToDatabase();
+
+  const notification = await Notification.findOneAndUpdate(
+    { _id: notificationId, userId, readAt: null },
+    { readAt: new Date() }
+  );
+
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+}
+
+// For when the condition behind a notification is resolved
+export async function dismissNotifications(
+  userId: string,
+  types: string[]
+): Promise<void> {
+  await connectToDatabase();
+
+  await Notification.updateMany(
+    { userId, type: { $in: types }, readAt: null },
+    { readAt: new Date() }
+  );
+}
@@ -0,0 +1,203 @@
+"use server";
+
+import { hash } from "bcrypt";
+import { connectToDatabase } from "../database/connection/mongoose";
+import PasswordReset from "../database/models/password-reset.model";
+import User from "../database/models/users.model";
+import {
+  buildPasswordChangedMessage,
+  buildPasswordResetMessage,
+  generatePasswordResetToken,
+  getPasswordResetTtlMinutes,
+  hashPasswordResetToken,
+} from "../password-reset";
+import { sendMail } from "../mailer";
+import {
+  assertNotRateLimited,
+  otpAccountRule,
+  otpRules,
+  passwordResetRules,
+  registerFailure,
+  withRateLimit,
+} from "../rate-limit";
+import { ClientInfo, IPasswordResetChallenge } from "@/types";
+import {
+  getActive2faByUserId,
+  getActiveOtpDigits,
+  verify2faToken,
+} from "./twofa";
+import { consumeRecoveryCode } from "./recovery-codes";
+import { hasActivePhoneFactor, sendSmsOtp, verifySmsOtp } from "./sms-otp";
+import { revokeAllUserTokens } from "./revoked-tokens";
+import { revokeAllTrustedDevices } from "./trusted-devices";
+import { createNotification } from "./notifications";
+
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// NOTE: Answers the same whether or not the account exists, the form must not reveal who is registered.
+export async function requestPasswordReset(
+  email: string,
+  client: ClientInfo
+): Promise<void> {
+  await connectToDatabase();
+
+  const rules = passwordResetRules(client.ip, email);
+  await assertNotRateLimited(rules);
+  await registerFailure(rules);
+
+  const user = await User.findOne({ email });
+
+  // An unknown address runs the same lookups, token and write as a known one,
+  // the response time must not tell them apart
+  const existing = await PasswordReset.findOne({ userId: user?._id ?? null });
+  const token = generatePasswordResetToken();
+  const now = new Date();
+
+  // A fresh link a moment ago is enough, a second mail would only add noise
+  const send =
+    !!user &&
+    !(existing && existing.sentAt.getTime() + RESEND_COOLDOWN_MS > Date.now());
+
+  // No reset is ever stored without a user, the filter matches nothing when not sending
+  await PasswordReset.updateOne(
+    { userId: send ? user._id : null },
+    {
+      tokenHash: hashPasswordResetToken(token),
+      sentAt: now,
+      expiresAt: new Date(
+        now.getTime() + getPasswordResetTtlMinutes() * 60 * 1000
+      ),
+    },
+    { upsert: send }
+  );
+
+  if (!send) return;
+
+  // Not awaited, the SMTP round trip would only happen for registered addresses
+  sendMail(buildPasswordResetMessage(user.email, token)).catch((error) => {
+    console.error("Password reset mail error:", error);
+  });
+}
+
+// Tells the reset form whether to ask for a second factor, the link is not spent here
+export async function getPasswordResetChallenge(
+  resetToken: string
+): Promise<IPasswordResetChallenge> {
+  await connectToDatabase();
+
+  const reset = await findLiveReset(resetToken);
+  const userId = reset.userId.toString();
+  const user2fa = await getActive2faByUserId(userId);
+  // The same factors as a sign-in, a phone-only account is a 2FA account too
+  const smsAvailable = await hasActivePhoneFactor(userId);
+
+  return {
+    otpRequired: !!user2fa || smsAvailable,
+    otpDigits: user2fa ? user2fa.digits || 6 : null,
+    otpDigitOptions: user2fa ? await getActiveOtpDigits(userId) : [],
+    smsAvailable,
+  };
+}
+
+// Returns the masked number, the reset form tells the user which phone to check
+export async function sendPasswordResetSmsOtp(
+  resetToken: string,
+  client: ClientInfo
+): Promise<string> {
+  await connectToDatabase();
+
+  const reset = await findLiveReset(resetToken);
+  const userId = reset.userId.toString();
+
+  // No fresh codes for an account locked on the second factor
+  await assertNotRateLimited([otpAccountRule(userId)]);
+
+  return sendSmsOtp(userId, "password_reset", client);
+}
+
+// NOTE: With 2FA on, the mailed link only proves the inbox, a code from any factor still has to pass.
+export async function resetPassword(
+  resetToken: string,
+  newPassword: string,
+  proof: { token?: string; smsCode?: string; recoveryCode?: string },
+  client: ClientInfo
+): Promise<void> {
+  await connectToDatabase();
+
+  const reset = await findLiveReset(resetToken);
+  const userId = reset.userId.toString();
+
+  const user2fa = await getActive2faByUserId(userId);
+  const smsEnrolled = await hasActivePhoneFactor(userId);
+
+  if (user2fa || smsEnrolled) {
+    await withRateLimit(otpRules(client.ip, userId), async () => {
+      if (proof.token) {
+        if (!user2fa) {
+          throw new Error("Invalid OTP, try again.");
+        }
+        await verify2faToken(userId, proof.token);
+      } else if (proof.smsCode) {
+        if (!smsEnrolled) {
+          throw new Error("Invalid SMS code");
+        }
+        await verifySmsOtp(userId, "password_reset", proof.smsCode);
+      } else if (proof.recoveryCode) {
+        if (!(await consumeRecoveryCode(userId, proof.recoveryCode, client))) {
+          throw new Error("Invalid or already used recovery code");
+        }
+      } else {
+        throw new Error(
+          "An authentication code, an SMS code or an unused recovery code is required"
+        );
+      }
+    });
+  }
+
+  // Single use, deleting it first means a concurrent request with the same link loses
+  const consumed = await PasswordReset.findOneAndDelete({
+    _id: reset._id,
+    tokenHash: reset.tokenHash,
+  });
+  if (!consumed) {
+    throw new Error("Invalid or expired reset link");
+  }
+
+  const user = await User.findOneAndUpdate(
+    { _id: userId },
+    { password: await hash(newPassword, 10) }
+  );
+  if (!user) {
+    throw new Error("Invalid or expired reset link");
+  }
+
+  // Whoever knew the old password is signed out everywhere, remembered browsers included
+  await revokeAllUserTokens(userId, "password_reset");
+  await revokeAllTrustedDevices(userId, "password_reset");
+
+  await createNotification(
+    userId,
+    "password_reset",
+    "Your password was reset from a link sent to your email and every session was signed out. If this was not you, reset it again and review your 2FA settings."
+  );
+
+  // The account is already secured, a mail outage must not turn this into an error
+  try {
+    await sendMail(buildPasswordChangedMessage(user.email));
+  } catch (error) {
+    console.error("Password reset confirmation mail failed:", error);
+  }
+}
+
+async function findLiveReset(resetToken: string) {
+  const reset = await PasswordReset.findOne({
+    tokenHash: hashPasswordResetToken(resetToken),
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!reset) {
+    throw new Error("Invalid or expired reset link");
+  }
+
+  return reset;
+}
@@ -1,16 +1,60 @@
 "use server";
 
 import RecoveryCode from "../database/models/recovery-code.model";
-import { v4 as uuidv4 } from "uuid";
 import User from "../database/models/users.model";
 import { connectToDatabase } from "../database/connection/mongoose";
+import { ClientInfo, IRecoveryCode, IRecoveryCodeStatus } from "@/types";
+import {
+  hashRecoveryCode,
+  recoveryCodeHint,
+  recoveryCodeMatches,
+} from "../recovery-code-hash";
+import {
+  generateRecoveryCodes,
+  maskRecoveryCode,
+} from "../recovery-code-format";
+import { parseUserAgent } from "../utils";
+import { createNotification, dismissNotifications } from "./notifications";
+import RecoveryKit from "../database/models/recovery-kit.model";
+import { openSecret, sealSecret } from "../secret-box";
+import { TOTP_ISSUER } from "../totp";
+import { RecoveryKit as RecoveryKitData } from "../recovery-kit";
+import { v4 as uuidv4 } from "uuid";
+
+const DEFAULT_LOW_RECOVERY_CODE_THRESHOLD = 3;
+const RECOVERY_KIT_TTL_MINUTES = 15;
+const RECOVERY_CODES_LOW = "recovery_codes_low";
+const RECOVERY_CODES_EXHAUSTED = "recovery_codes_exhausted";
 
-export async function bulkCreateRecoveryCodes(userId: string) {
+// NOTE: The only place plaintext codes ever leave the server, only their HMAC is stored.
+export async function bulkCreateRecoveryCodes(
+  userId: string
+): Promise<IRecoveryCode[]> {
   try {
-    const recoveryCodeData = generateRecoveryCodes(userId);
+    const codes = generateRecoveryCodes();
+    const batchId = uuidv4();
     await destroyUserExistingRecoveryCodes(userId);
-    const recoverCodes = await RecoveryCode.insertMany(recoveryCodeData);
-    return recoverCodes;
+    const recoverCodes = await RecoveryCode.insertMany(
+      codes.map((code) => ({
+        userId,
+        batchId,
+        codeHash: hashRecoveryCode(code),
+        hint: recoveryCodeHint(code),
+      }))
+    );
+    await storeRecoveryKit(userId, batchId, codes);
+    await dismissNotifications(userId, [
+      RECOVERY_CODES_LOW,
+      RECOVERY_CODES_EXHAUSTED,
+    ]);
+
+    return recoverCodes.map((recoveryCode, index) => ({
+      _id: recoveryCode._id.toString(),
+      code: codes[index],
+      batchId,
+      active: recoveryCode.active,
+      createdAt: recoveryCode.createdAt,
+    }));
   } catch (error) {
     throw new Error("Failed to create recover codes");
   }
@@ -22,6 +66,54 @@ async function destroyUserExistingRecoveryCodes(userId: string) {
   });
 }
 
+// NOTE: Plaintext is only kept sealed and for RECOVERY_KIT_TTL_MINUTES, long enough to download the kit.
+async function storeRecoveryKit(
+  userId: string,
+  batchId: string,
+  codes: string[]
+) {
+  const { secret, keyVersion } = sealSecret(JSON.stringify(codes));
+
+  await RecoveryKit.deleteMany({ userId });
+  await RecoveryKit.create({
+    userId,
+    batchId,
+    sealedCodes: secret,
+    keyVersion,
+    expiresAt: new Date(Date.now() + RECOVERY_KIT_TTL_MINUTES * 60 * 1000),
+  });
+}
+
+export async function getRecoveryKit(
+  userId: string,
+  batchId: string
+): Promise<RecoveryKitData> {
+  await connectToDatabase();
+
+  const [recoveryKit, user] = await Promise.all([
+    RecoveryKit.findOne({
+      userId,
+      batchId,
+      expiresAt: { $gt: new Date() },
+    }),
+    User.findOne({ _id: userId }),
+  ]);
+
+  if (!recoveryKit || !user) {
+    throw new Error("Recovery kit not found or expired");
+  }
+
+  return {
+    issuer: TOTP_ISSUER,
+    account: user.email,
+    batchId,
+    generatedAt: recoveryKit.createdAt,
+    codes: JSON.parse(
+      openSecret(recoveryKit.sealedCodes, recoveryKit.keyVersion)
+    ),
+  };
+}
+
 export async function getRecoveryCodeById(recoveryCodeId: string) {
   try {
     const recoveryCode = await RecoveryCode.findById(recoveryCodeId);
@@ -36,10 +128,7 @@ export async function getRecoveryCodeById(recoveryCodeId: string) {
 
 export async function getUserRecoveryCodeByCode(code: string, userId: string) {
   await connectToDatabase();
-  const recoveryCode = await RecoveryCode.findOne({
-    userId,
-    code,
-  });
+  const recoveryCode = await findMatchingRecoveryCode(userId, code);
 
   if (!recoveryCode) {
     return null;
@@ -47,14 +136,26 @@ export async function getUserRecoveryCodeByCode(code: string, userId: string) {
   return recoveryCode;
 }
 
-export async function getAllUserRecoveryCodes(userId: string) {
+// Masked codes and their status only, the plaintext cannot be recovered after generation
+export async function getAllUserRecoveryCodes(
+  userId: string
+): Promise<IRecoveryCode[]> {
+  await connectToDatabase();
   const results = await RecoveryCode.find({
     userId,
-  });
+  }).sort({ createdAt: 1 });
 
-  if (results.length > 0) return results;
-
-  return bulkCreateRecoveryCodes(userId);
+  return results.map((recoveryCode) => ({
+    _id: recoveryCode._id.toString(),
+    code: maskRecoveryCode(recoveryCode.hint),
+    active: recoveryCode.active,
+    createdAt: recoveryCode.createdAt,
+    ...(recoveryCode.active && {
+      usedAt: recoveryCode.usedAt,
+      usedIp: recoveryCode.usedIp,
+      ...parseUsedUserAgent(recoveryCode.usedUserAgent),
+    }),
+  }));
 }
 
 export async function updateRecoveryCode(
@@ -84,68 +185,197 @@ export async function deleteRecoveryCode(recoveryCodeId: string) {
 }
 
 export async function processRecoveryCodeForSignin(
-  email: string,
-  code: string
+  userId: string,
+  code: string,
+  client: ClientInfo
 ): Promise<boolean> {
   await connectToDatabase();
-  const user = await User.findOne({
-    email,
-  });
 
-  const recoveryCode = await RecoveryCode.findOne({
-    userId: user?._id,
-    code,
-  });
+  const burned = await burnRecoveryCode(userId, code, client);
 
-  if (recoveryCode?._id) {
-    if (!recoveryCode?.active) {
-      // NOTE: This ensures as a singular code cannot be used multiple times, only ONCE.
-      await RecoveryCode.findOneAndUpdate(
-        { _id: recoveryCode?._id },
-        {
-          active: true,
-        }
-      );
-    }
+  if (burned) {
+    await applyRecoveryCodePolicy(userId);
   }
 
-  return !recoveryCode?.active;
+  return burned;
 }
 
-export async function getRecoveryCodeForSignin(
-  email: string,
-  code: string
+// Spends a code to authorize something other than a sign-in, the low-code policy does not apply
+export async function consumeRecoveryCode(
+  userId: string,
+  code: string,
+  client: ClientInfo
 ): Promise<boolean> {
   await connectToDatabase();
-  const user = await User.findOne({
-    email,
-  });
 
-  const recoveryCode = await RecoveryCode.findOne({
-    userId: user?._id,
-    code,
+  return burnRecoveryCode(userId, code, client);
+}
+
+// NOTE: Codes only make sense next to an enabled second factor, drop them with it.
+export async function invalidateUserRecoveryCodes(
+  userId: string
+): Promise<void> {
+  await connectToDatabase();
+
+  await destroyUserExistingRecoveryCodes(userId);
+  await RecoveryKit.deleteMany({ userId });
+  await User.updateOne(
+    { _id: userId },
+    { recoveryCodesRegenerationRequired: false }
+  );
+  await dismissNotifications(userId, [
+    RECOVERY_CODES_LOW,
+    RECOVERY_CODES_EXHAUSTED,
+  ]);
+}
+
+export async function getRecoveryCodeStatus(
+  userId: string
+): Promise<IRecoveryCodeStatus> {
+  await connectToDatabase();
+
+  const [total, remaining, user, lastUsed] = await Promise.all([
+    RecoveryCode.countDocuments({ userId }),
+    RecoveryCode.countDocuments({ userId, active: false }),
+    User.findOne({ _id: userId }).select("recoveryCodesRegenerationRequired"),
+    RecoveryCode.findOne({ userId, active: true, usedAt: { $ne: null } })
+      .sort({ usedAt: -1 })
+      .select("usedAt usedIp"),
+  ]);
+  const threshold = getLowRecoveryCodeThreshold();
+
+  return {
+    total,
+    remaining,
+    threshold,
+    low: total > 0 && remaining <= threshold,
+    regenerationRequired: !!user?.recoveryCodesRegenerationRequired,
+    // Shown on the dashboard without the step-up the full code list needs
+    lastUsedAt: lastUsed?.usedAt || null,
+    lastUsedIp: lastUsed?.usedIp || null,
+  };
+}
+
+export async function isRecoveryCodeRegenerationRequired(
+  userId: string
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const user = await User.findOne({ _id: userId }).select(
+    "recoveryCodesRegenerationRequired"
+  );
+
+  return !!user?.recoveryCodesRegenerationRequired;
+}
+
+// NOTE: Second half of the forced regeneration, the user confirms the new codes are saved.
+export async function acknowledgeRecoveryCodes(userId: string): Promise<void> {
+  await connectToDatabase();
+
+  const remaining = await RecoveryCode.countDocuments({
+    userId,
+    active: false,
   });
 
-  if (!recoveryCode) {
-    return false;
+  if (remaining === 0) {
+    throw new Error("Generate new recovery codes before acknowledging them");
   }
 
-  return !recoveryCode?.active;
+  await User.updateOne(
+    { _id: userId },
+    { recoveryCodesRegenerationRequired: false }
+  );
+}
+
+// RECOVERY_CODES_LOW_THRESHOLD unused codes or fewer count as running low
+function getLowRecoveryCodeThreshold(): number {
+  const threshold = Number(process.env.RECOVERY_CODES_LOW_THRESHOLD);
+
+  return Number.isInteger(threshold) && threshold >= 0
+    ? threshold
+    : DEFAULT_LOW_RECOVERY_CODE_THRESHOLD;
 }
 
-function generateRecoveryCodes(userId: string) {
-  const codes = [];
-  for (let i = 0; i < 16; i++) {
-    codes.push({
+// Runs after a code is burned: warn when running low, force regeneration once none are left
+async function applyRecoveryCodePolicy(userId: string) {
+  const remaining = await RecoveryCode.countDocuments({
+    userId,
+    active: false,
+  });
+
+  if (remaining === 0) {
+    await User.updateOne(
+      { _id: userId },
+      { recoveryCodesRegenerationRequired: true }
+    );
+    await createNotification(
+      userId,
+      RECOVERY_CODES_EXHAUSTED,
+      "You have used your last recovery code. Generate and save new codes to keep access to your account."
+    );
+  } else if (remaining <= getLowRecoveryCodeThreshold()) {
+    await createNotification(
       userId,
-      code: generateRandomString(),
-    });
+      RECOVERY_CODES_LOW,
+      `Only ${remaining} unused recovery code${
+        remaining === 1 ? "" : "s"
+      } left. Generate new codes before you run out.`
+    );
   }
-  return codes;
 }
 
-function generateRandomString(): string {
-  const uuid = uuidv4().replace(/-/g, ""); // Remove hyphens from UUID
-  const formattedUuid = uuid.slice(0, 5) + "-" + uuid.slice(5, 10);
-  return formattedUuid;
-}
\ No newline at end of file
+// Codes burned before usage was recorded have no user agent
+function parseUsedUserAgent(userAgent?: string | null) {
+  if (!userAgent) return {};
+
+  const { browser, os } = parseUserAgent(userAgent);
+  return { usedBrowser: browser, usedOs: os };
+}
+
+// Compares against every candidate in constant time instead of looking the code up by equality
+async function burnRecoveryCode(
+  userId: string,
+  code: string,
+  client: ClientInfo
+): Promise<boolean> {
+  const match = await findMatchingRecoveryCode(userId, code, {
+    unusedOnly: true,
+  });
+  if (!match) return false;
+
+  // NOTE: Single atomic update, a code can only be burned ONCE even under concurrent sign-ins.
+  const recoveryCode = await RecoveryCode.findOneAndUpdate(
+    {
+      _id: match._id,
+      active: false,
+    },
+    {
+      active: true,
+      usedAt: new Date(),
+      usedIp: client.ip,
+      usedUserAgent: client.userAgent,
+    }
+  );
+
+  return !!recoveryCode;
+}
+
+async function findMatchingRecoveryCode(
+  userId: string,
+  code: string,
+  { unusedOnly = false }: { unusedOnly?: boolean } = {}
+) {
+  const candidates = await RecoveryCode.find({
+    userId,
+    ...(unusedOnly ? { active: false } : {}),
+  });
+
+  let match = null;
+  for (const candidate of candidates) {
+    if (recoveryCodeMatches(code, candidate.codeHash) && !match) {
+      match = candidate;
+    }
+  }
+
+  return match;
+}
@@ -0,0 +1,77 @@
+"use server";
+
+import { connectToDatabase } from "../database/connection/mongoose";
+import RevokedToken from "../database/models/revoked-token.model";
+import Session from "../database/models/session.model";
+import { MAX_TOKEN_TTL_SECONDS } from "../tokens";
+
+export async function revokeToken(token: {
+  jti: string;
+  userId: string;
+  exp: number;
+}): Promise<void> {
+  await connectToDatabase();
+
+  await RevokedToken.updateOne(
+    { jti: token.jti },
+    {
+      userId: token.userId,
+      jti: token.jti,
+      expiresAt: new Date(token.exp * 1000),
+    },
+    { upsert: true }
+  );
+}
+
+// Revokes a single-use token and tells whether this call was the one that spent it,
+// the unique jti index lets only one of two concurrent callers through
+export async function consumeToken(token: {
+  jti: string;
+  userId: string;
+  exp: number;
+}): Promise<boolean> {
+  await connectToDatabase();
+
+  try {
+    await RevokedToken.create({
+      userId: token.userId,
+      jti: token.jti,
+      expiresAt: new Date(token.exp * 1000),
+    });
+  } catch (error) {
+    // Duplicate key, the token was already spent
+    if ((error as any)?.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+
+  return true;
+}
+
+export async function revokeAllUserTokens(
+  userId: string,
+  reason: string,
+  options: { keepSessionId?: string } = {}
+): Promise<void> {
+  await connectToDatabase();
+
+  // JWT iat has a one second resolution, align the cut-off on it
+  const issuedBefore = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+  await RevokedToken.create({
+    userId,
+    issuedBefore,
+    expiresAt: new Date(issuedBefore.getTime() + MAX_TOKEN_TTL_SECONDS * 1000),
+  });
+
+  // NOTE: The kept session loses its access token too, but may mint a fresh one through its refresh token.
+  await Session.updateMany(
+    {
+      userId,
+      revokedAt: null,
+      ...(options.keepSessionId ? { _id: { $ne: options.keepSessionId } } : {}),
+    },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+}
@@ -0,0 +1,273 @@
+"use server";
+
+import { createHash, randomBytes } from "crypto";
+import { connectToDatabase } from "../database/connection/mongoose";
+import Session from "../database/models/session.model";
+import { signAccessToken, signRefreshToken, verifyRefreshToken } from "../tokens";
+import { parseUserAgent } from "../utils";
+import { ReauthRequiredError } from "../errors";
+import { getActive2faByUserId, getActiveOtpDigits } from "./twofa";
+import { hasActivePhoneFactor } from "./sms-otp";
+import { ClientInfo } from "@/types";
+
+const REFRESH_TOKEN_TTL_DAYS = 30;
+// Two tabs share the cookie and can both refresh with it, the slower one lands within this window
+const REFRESH_REUSE_GRACE_SECONDS = 10;
+const DEFAULT_STEP_UP_WINDOW_MINUTES = 10;
+
+export async function createSession(
+  userId: string,
+  client: ClientInfo,
+  // A trusted device skips the second factor, that is not enough for a step-up
+  options: { steppedUp?: boolean } = {}
+): Promise<{ token: string; refreshToken: string }> {
+  await connectToDatabase();
+
+  const secret = generateRefreshSecret();
+  const expiresAt = refreshTokenExpiry();
+
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hashRefreshSecret(secret),
+    userAgent: client.userAgent,
+    ip: client.ip,
+    lastSeenAt: new Date(),
+    // Signing in checks the same factors as a step-up, no need to ask again right away
+    stepUpAt: options.steppedUp === false ? null : new Date(),
+    expiresAt,
+  });
+
+  const sessionId = session._id.toString();
+
+  return {
+    token: signAccessToken(userId, sessionId),
+    refreshToken: signRefreshToken(userId, sessionId, secret, expiresAt),
+  };
+}
+
+// The refresh token is left out when a concurrent request already rotated it, the browser keeps that one
+export async function refreshSession(
+  refreshToken: string,
+  client: ClientInfo
+): Promise<{ token: string; refreshToken?: string }> {
+  await connectToDatabase();
+
+  const { sessionId, secret } = verifyRefreshToken(refreshToken);
+  if (!/^[a-f0-9]{24}$/.test(sessionId)) {
+    throw new Error("Invalid refresh token");
+  }
+
+  const nextSecret = generateRefreshSecret();
+  const expiresAt = refreshTokenExpiry();
+
+  // NOTE: Compare-and-swap on the current digest, so a refresh token can be rotated only ONCE.
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      refreshTokenHash: hashRefreshSecret(secret),
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    {
+      refreshTokenHash: hashRefreshSecret(nextSecret),
+      previousRefreshTokenHash: hashRefreshSecret(secret),
+      rotatedAt: new Date(),
+      userAgent: client.userAgent,
+      ip: client.ip,
+      lastSeenAt: new Date(),
+      expiresAt,
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const raced = await Session.findOne({
+      _id: sessionId,
+      previousRefreshTokenHash: hashRefreshSecret(secret),
+      rotatedAt: {
+        $gt: new Date(Date.now() - REFRESH_REUSE_GRACE_SECONDS * 1000),
+      },
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+
+    // Lost the race to another tab, its rotated cookie stays and only a fresh access token is needed
+    if (raced) {
+      return { token: signAccessToken(raced.userId.toString(), sessionId) };
+    }
+
+    // A live session presented with a stale token outside the grace window means the token was copied: kill the whole family.
+    const reused = await Session.findOneAndUpdate(
+      { _id: sessionId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: "refresh_token_reuse" }
+    );
+
+    if (reused) {
+      console.warn("Refresh token reuse detected, session revoked:", sessionId);
+    }
+
+    throw new Error("Invalid refresh token");
+  }
+
+  const userId = session.userId.toString();
+
+  return {
+    token: signAccessToken(userId, sessionId),
+    refreshToken: signRefreshToken(userId, sessionId, nextSecret, expiresAt),
+  };
+}
+
+export async function endSession(refreshToken: string): Promise<boolean> {
+  await connectToDatabase();
+
+  let sessionId, secret;
+  try {
+    ({ sessionId, secret } = verifyRefreshToken(refreshToken));
+  } catch (error) {
+    return false;
+  }
+
+  if (!/^[a-f0-9]{24}$/.test(sessionId)) {
+    return false;
+  }
+
+  // Only the holder of the current refresh token can end the session this way
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      refreshTokenHash: hashRefreshSecret(secret),
+      revokedAt: null,
+    },
+    { revokedAt: new Date(), revokedReason: "logout" }
+  );
+
+  return !!session;
+}
+
+export async function getActiveUserSessions(
+  userId: string,
+  currentSessionId?: string
+) {
+  await connectToDatabase();
+
+  const sessions = await Session.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastSeenAt: -1 });
+
+  return sessions.map((session) => {
+    const { browser, os } = parseUserAgent(session.userAgent);
+
+    return {
+      _id: session._id.toString(),
+      browser,
+      os,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: session._id.toString() === currentSessionId,
+    };
+  });
+}
+
+export async function revokeSession(
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: "revoked_by_user" }
+  );
+
+  if (!session) {
+    throw new Error("Session not found");
+  }
+
+  return true;
+}
+
+export async function revokeOtherSessions(
+  userId: string,
+  currentSessionId: string
+): Promise<number> {
+  await connectToDatabase();
+
+  const result = await Session.updateMany(
+    { userId, _id: { $ne: currentSessionId }, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: "revoked_by_user" }
+  );
+
+  return result.modifiedCount;
+}
+
+// NOTE: Step-up is per session, re-authenticating on one device does not unlock the others.
+export async function markSessionSteppedUp(
+  userId: string,
+  sessionId: string
+): Promise<Date> {
+  await connectToDatabase();
+
+  const stepUpAt = new Date();
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, userId, revokedAt: null },
+    { stepUpAt }
+  );
+
+  if (!session) {
+    throw new Error("Session not found");
+  }
+
+  return new Date(stepUpAt.getTime() + getStepUpWindowMs());
+}
+
+export async function assertRecentStepUp(
+  userId: string,
+  sessionId: string
+): Promise<void> {
+  await connectToDatabase();
+
+  const session = await Session.findOne({
+    _id: sessionId,
+    userId,
+    revokedAt: null,
+    stepUpAt: { $gt: new Date(Date.now() - getStepUpWindowMs()) },
+  }).select("_id");
+
+  if (!session) {
+    const user2fa = await getActive2faByUserId(userId);
+
+    throw new ReauthRequiredError(
+      "Please confirm your identity to continue",
+      user2fa ? user2fa.digits || 6 : null,
+      !user2fa && (await hasActivePhoneFactor(userId)),
+      user2fa ? await getActiveOtpDigits(userId) : []
+    );
+  }
+}
+
+function getStepUpWindowMs(): number {
+  const minutes = Number(process.env.STEP_UP_WINDOW_MINUTES);
+
+  return (
+    (Number.isInteger(minutes) && minutes > 0
+      ? minutes
+      : DEFAULT_STEP_UP_WINDOW_MINUTES) *
+    60 *
+    1000
+  );
+}
+
+function generateRefreshSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function hashRefreshSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,222 @@
+"use server";
+
+import { connectToDatabase } from "../database/connection/mongoose";
+import SmsOtp from "../database/models/sms-otp.model";
+import PhoneFactor from "../database/models/phone-factor.model";
+import Twofa from "../database/models/twofa.model";
+import {
+  buildSmsOtpMessage,
+  generateSmsOtp,
+  getSmsOtpTtlMinutes,
+  hashSmsOtp,
+  maskPhoneNumber,
+  normalizePhoneNumber,
+  smsOtpMatches,
+} from "../sms-otp";
+import { sendSms } from "../sms";
+import { TooManyRequestsError } from "../errors";
+import {
+  assertNotRateLimited,
+  otpRules,
+  registerFailure,
+  smsSendRules,
+  withRateLimit,
+} from "../rate-limit";
+import { ClientInfo, IPhoneFactor } from "@/types";
+import { createNotification } from "./notifications";
+
+type SmsOtpPurpose =
+  | "login"
+  | "enrollment"
+  | "password_reset"
+  | "step_up"
+  | "phone_removal";
+
+// A phone is not an OTP oracle, a code takes this many wrong guesses before it is burnt
+const MAX_ATTEMPTS_PER_CODE = 5;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// NOTE: Texts a fresh code to the user's phone, returns the masked number it went to.
+export async function sendSmsOtp(
+  userId: string,
+  purpose: SmsOtpPurpose,
+  client: ClientInfo
+): Promise<string> {
+  await connectToDatabase();
+
+  // Only enrollment texts the pending number, everything else needs a verified one
+  const factor = await PhoneFactor.findOne(
+    purpose === "enrollment"
+      ? { userId, status: false }
+      : { userId, status: true }
+  );
+  if (!factor) {
+    throw new Error("No phone number enrolled");
+  }
+
+  const existing = await SmsOtp.findOne({ userId, purpose });
+  if (existing) {
+    const waitMs = existing.sentAt.getTime() + RESEND_COOLDOWN_MS - Date.now();
+    if (waitMs > 0) {
+      throw new TooManyRequestsError(
+        "A code was sent a moment ago, please wait before requesting another",
+        Math.ceil(waitMs / 1000)
+      );
+    }
+  }
+
+  const sendRules = smsSendRules(client.ip, userId);
+  await assertNotRateLimited(sendRules);
+
+  const code = generateSmsOtp();
+  const now = new Date();
+
+  await SmsOtp.findOneAndUpdate(
+    { userId, purpose },
+    {
+      codeHash: hashSmsOtp(userId, code),
+      attempts: 0,
+      sentAt: now,
+      expiresAt: new Date(now.getTime() + getSmsOtpTtlMinutes() * 60 * 1000),
+    },
+    { upsert: true }
+  );
+
+  await sendSms(buildSmsOtpMessage(factor.phoneNumber, code));
+  await registerFailure(sendRules);
+
+  return maskPhoneNumber(factor.phoneNumber);
+}
+
+// Throws unless the code is valid, callers wrap this in the OTP rate limits
+export async function verifySmsOtp(
+  userId: string,
+  purpose: SmsOtpPurpose,
+  code: string
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const stored = await SmsOtp.findOne({
+    userId,
+    purpose,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!stored) {
+    throw new Error("Invalid or expired SMS code, request a new one");
+  }
+
+  if (!smsOtpMatches(userId, code, stored.codeHash)) {
+    const updated = await SmsOtp.findOneAndUpdate(
+      { _id: stored._id },
+      { $inc: { attempts: 1 } },
+      { new: true }
+    );
+
+    if (updated && updated.attempts >= MAX_ATTEMPTS_PER_CODE) {
+      await SmsOtp.deleteOne({ _id: stored._id });
+    }
+
+    throw new Error("Invalid SMS code");
+  }
+
+  // Single use, deleting it first means a concurrent request with the same code loses
+  const consumed = await SmsOtp.findOneAndDelete({ _id: stored._id });
+  if (!consumed) {
+    throw new Error("Invalid or expired SMS code, request a new one");
+  }
+
+  if (purpose !== "enrollment") {
+    await PhoneFactor.updateOne(
+      { userId, status: true },
+      { lastUsedAt: new Date() }
+    );
+  }
+
+  return true;
+}
+
+export async function hasActivePhoneFactor(userId: string): Promise<boolean> {
+  await connectToDatabase();
+
+  return !!(await PhoneFactor.exists({ userId, status: true }));
+}
+
+export async function getPhoneFactor(
+  userId: string
+): Promise<IPhoneFactor | null> {
+  await connectToDatabase();
+
+  const factor = await PhoneFactor.findOne({ userId });
+  if (!factor) return null;
+
+  return {
+    phoneNumber: maskPhoneNumber(factor.phoneNumber),
+    status: factor.status,
+    createdAt: factor.createdAt,
+    lastUsedAt: factor.lastUsedAt,
+    // Removing it then turns 2FA off, the settings page asks for a code first
+    lastFactor:
+      factor.status && !(await Twofa.exists({ userId, status: true })),
+  };
+}
+
+// NOTE: Captures the number as pending, it only becomes a factor once the texted code comes back.
+export async function startSmsEnrollment(
+  userId: string,
+  phoneNumber: unknown,
+  client: ClientInfo
+): Promise<string> {
+  await connectToDatabase();
+
+  const normalized =
+    typeof phoneNumber === "string" ? normalizePhoneNumber(phoneNumber) : null;
+  if (!normalized) {
+    throw new Error(
+      "Invalid phone number, use the international format, e.g. +14155550123"
+    );
+  }
+
+  if (await PhoneFactor.exists({ userId, status: true })) {
+    throw new Error("A phone number is already enrolled, remove it first");
+  }
+
+  await PhoneFactor.findOneAndUpdate(
+    { userId },
+    { phoneNumber: normalized, status: false },
+    { upsert: true }
+  );
+
+  return sendSmsOtp(userId, "enrollment", client);
+}
+
+export async function confirmSmsEnrollment(
+  userId: string,
+  code: string,
+  client: ClientInfo
+): Promise<void> {
+  await connectToDatabase();
+
+  await withRateLimit(otpRules(client.ip, userId), () =>
+    verifySmsOtp(userId, "enrollment", code)
+  );
+
+  await PhoneFactor.findOneAndUpdate(
+    { userId, status: false },
+    { status: true }
+  );
+
+  await createNotification(
+    userId,
+    "sms_enabled",
+    "Sign-in codes can now be texted to your phone. If this was not you, change your password and remove the number."
+  );
+}
+
+// Removing the phone alone or with 2FA as a whole, there may be nothing to remove
+export async function clearPhoneFactor(userId: string): Promise<void> {
+  await connectToDatabase();
+
+  await PhoneFactor.deleteMany({ userId });
+  await SmsOtp.deleteMany({ userId });
+}
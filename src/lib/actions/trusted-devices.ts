@@ -0,0 +1,151 @@
+"use server";
+
+import { connectToDatabase } from "../database/connection/mongoose";
+import TrustedDevice from "../database/models/trusted-device.model";
+import {
+  getTrustedDeviceDays,
+  signTrustedDeviceToken,
+  verifyTrustedDeviceToken,
+} from "../tokens";
+import { parseUserAgent } from "../utils";
+import { ClientInfo, ITrustedDevice } from "@/types";
+import { createNotification } from "./notifications";
+
+// NOTE: Called once the second factor passed, the returned token goes into an HttpOnly cookie.
+export async function trustDevice(
+  userId: string,
+  client: ClientInfo
+): Promise<{ token: string; expiresAt: Date }> {
+  await connectToDatabase();
+
+  const expiresAt = new Date(
+    Date.now() + getTrustedDeviceDays() * 24 * 60 * 60 * 1000
+  );
+
+  const device = await TrustedDevice.create({
+    userId,
+    userAgent: client.userAgent,
+    ip: client.ip,
+    lastUsedAt: new Date(),
+    expiresAt,
+  });
+
+  const { browser, os } = parseUserAgent(client.userAgent);
+  await createNotification(
+    userId,
+    "device_trusted",
+    `${browser} on ${os} can now sign in without a second factor until ${expiresAt.toDateString()}. If this was not you, revoke it and change your password.`
+  );
+
+  return {
+    token: signTrustedDeviceToken(userId, device._id.toString(), expiresAt),
+    expiresAt,
+  };
+}
+
+// A valid signature is not enough, the record must still be live and belong to the same user
+export async function consumeTrustedDevice(
+  userId: string,
+  token: string,
+  client: ClientInfo
+): Promise<boolean> {
+  await connectToDatabase();
+
+  let payload;
+  try {
+    payload = verifyTrustedDeviceToken(token);
+  } catch (error) {
+    return false;
+  }
+
+  if (payload.userId !== userId) {
+    return false;
+  }
+
+  const device = await TrustedDevice.findOneAndUpdate(
+    {
+      _id: payload.did,
+      userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { lastUsedAt: new Date(), userAgent: client.userAgent, ip: client.ip }
+  );
+
+  return !!device;
+}
+
+export async function getTrustedDevices(
+  userId: string,
+  currentDeviceToken?: string | null
+): Promise<ITrustedDevice[]> {
+  await connectToDatabase();
+
+  const currentDeviceId = getDeviceIdFromToken(currentDeviceToken);
+
+  const devices = await TrustedDevice.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastUsedAt: -1 });
+
+  return devices.map((device) => {
+    const { browser, os } = parseUserAgent(device.userAgent);
+
+    return {
+      _id: device._id.toString(),
+      browser,
+      os,
+      ip: device.ip,
+      createdAt: device.createdAt,
+      lastUsedAt: device.lastUsedAt,
+      expiresAt: device.expiresAt,
+      current: device._id.toString() === currentDeviceId,
+    };
+  });
+}
+
+// Returns whether the revoked device is the calling browser, its cookie can then be dropped
+export async function revokeTrustedDevice(
+  userId: string,
+  deviceId: string,
+  currentDeviceToken?: string | null
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const device = await TrustedDevice.findOneAndUpdate(
+    { _id: deviceId, userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: "revoked_by_user" }
+  );
+
+  if (!device) {
+    throw new Error("Trusted device not found");
+  }
+
+  return getDeviceIdFromToken(currentDeviceToken) === deviceId;
+}
+
+// NOTE: Disabling 2FA and changing the password both end every trusted device.
+export async function revokeAllTrustedDevices(
+  userId: string,
+  reason = "revoked_by_user"
+): Promise<number> {
+  await connectToDatabase();
+
+  const result = await TrustedDevice.updateMany(
+    { userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+
+  return result.modifiedCount;
+}
+
+function getDeviceIdFromToken(token?: string | null): string | null {
+  if (!token) return null;
+
+  try {
+    return verifyTrustedDeviceToken(token).did || null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -3,71 +3,119 @@
 import speakeasy from "speakeasy";
 import { connectToDatabase } from "../database/connection/mongoose";
 import Twofa from "../database/models/twofa.model";
+import PhoneFactor from "../database/models/phone-factor.model";
 import User from "../database/models/users.model";
+import { ClientInfo, IAuthenticator, ITwoFaSetup } from "@/types";
+import { otpRules, withRateLimit } from "../rate-limit";
+import {
+  TotpConfig,
+  buildOtpauthUri,
+  getHotpLookAhead,
+  getHotpResyncWindow,
+  getTotpConfig,
+  resolveOtpType,
+  resolveTotpConfig,
+} from "../totp";
+import { openSecret, sealSecret } from "../secret-box";
+import { parseUserAgent } from "../utils";
+import {
+  consumeRecoveryCode,
+  invalidateUserRecoveryCodes,
+} from "./recovery-codes";
+import { createNotification } from "./notifications";
+import { removeAllWebauthnCredentials } from "./webauthn";
+import { disableEmailOtp } from "./email-otp";
+import { clearPhoneFactor, verifySmsOtp } from "./sms-otp";
+import { revokeAllTrustedDevices } from "./trusted-devices";
+
+const TWOFA_DISABLED = "twofa_disabled";
+const DEFAULT_AUTHENTICATOR_NAME = "Authenticator";
+const MAX_AUTHENTICATOR_NAME_LENGTH = 50;
 
 export async function generate2fa(
-  userId: string
-): Promise<{
-  description: string;
-  secretKey: string;
-}> {
+  userId: string,
+  options: Partial<Record<keyof TotpConfig | "type", unknown>> = {}
+): Promise<ITwoFaSetup> {
   await connectToDatabase();
-  // Check if user already have 2FA activated
-  const user2fa = await Twofa.findOne({
-    userId,
-    status: true,
-  });
 
-  if (user2fa) {
-    throw new Error("User has already enabled two-factor-authentication (2FA)");
+  const user = await User.findOne({ _id: userId });
+  if (!user) {
+    throw new Error("User not found");
   }
 
-  const secret = speakeasy.generateSecret();
+  const config = resolveTotpConfig(options);
+  const type = resolveOtpType(options.type);
+  const hasOptions = Object.values(options).some((value) => value !== undefined);
 
-  const userUnactivated2fa = await getTwofaByUserId(userId);
+  // NOTE: Active authenticators are left alone, this only ever starts or resumes one pending enrollment.
+  let userUnactivated2fa = await Twofa.findOne({ userId, status: false });
 
   if (userUnactivated2fa) {
-    return {
-      description: "Scan the QR code below to complete the process",
-      secretKey: userUnactivated2fa.secret as string,
-    };
+    // A pending enrollment keeps its secret, explicit choices still replace its parameters
+    if (hasOptions) {
+      userUnactivated2fa = await Twofa.findOneAndUpdate(
+        { _id: userUnactivated2fa._id },
+        { ...config, type, counter: 0 },
+        { new: true }
+      );
+    }
   } else {
-    await Twofa.create({
+    const secret = speakeasy.generateSecret();
+
+    // Only the sealed secret is stored, see src/lib/secret-box.ts
+    userUnactivated2fa = await Twofa.create({
       userId,
-      secret: secret.base32,
+      ...sealSecret(secret.base32),
+      ...config,
+      type,
     });
   }
 
+  const enrolledConfig = getTotpConfig(userUnactivated2fa);
+  const secretKey = openSecret(
+    userUnactivated2fa.secret,
+    userUnactivated2fa.keyVersion
+  );
+
+  const enrolledType = userUnactivated2fa.type || "totp";
+
   return {
     description: "Scan the QR code below to complete the process",
-    secretKey: secret.base32 as string,
+    secretKey,
+    otpauthUri: buildOtpauthUri(
+      secretKey,
+      user.email,
+      enrolledConfig,
+      enrolledType,
+      userUnactivated2fa.counter
+    ),
+    ...enrolledConfig,
+    type: enrolledType,
   };
 }
 
-export async function verify2fa(userId: string, token: string) {
+export async function verify2fa(userId: string, token: string, name?: unknown) {
   await connectToDatabase();
   const user2fa = await Twofa.findOne({
     userId,
-    status: { $ne: null },
+    status: false,
   });
 
   if (!user2fa) {
     throw new Error("SecretKey is invalid");
   }
 
-  // Verify the token against the secret
-  const verified = await speakEasyVerify(user2fa.secret, token);
-  if (!verified) {
-    throw new Error("Invalid OTP, try again.");
-  }
+  const authenticatorName = normalizeAuthenticatorName(name);
 
-  await Twofa.findOneAndUpdate(
-    { userId },
-    {
-      secret: user2fa.secret,
+  // Verify the token against the secret, the same update completes the enrollment
+  if (
+    !(await consumeAuthenticatorCode(user2fa, token, {
       status: true,
-    }
-  );
+      name: authenticatorName,
+    }))
+  ) {
+    throw new Error("Invalid OTP, try again.");
+  }
 
   return getTwofaByUserId(userId);
 }
@@ -77,109 +125,457 @@ export async function verify2faToken(
   token: string
 ): Promise<boolean> {
   await connectToDatabase();
-  const user2fa = await Twofa.findOne({
+  // NOTE: Only a completed enrollment can satisfy a sign-in challenge.
+  const user2fa = await Twofa.exists({
     userId,
-    status: {
-      $ne: null,
-    },
+    status: true,
   });
 
   if (!user2fa) {
     throw new Error("SecretKey is invalid");
   }
 
-  // Verify the token against the secret
-  const verified = await speakEasyVerify(user2fa.secret, token);
-  if (!verified) {
+  if (!(await matchActiveAuthenticator(userId, token))) {
     throw new Error("Invalid OTP, try again.");
   }
 
   return true;
 }
 
-export async function verifyTwofaTokenByEmail(email: string, token: string) {
+// NOTE: A session alone cannot switch the second factor off, it has to be presented once more.
+export async function delete2fa(
+  userId: string,
+  proof: { token?: string; recoveryCode?: string },
+  client: ClientInfo
+): Promise<boolean> {
   await connectToDatabase();
-
-  const user = await User.findOne({
-    email,
+  const authenticators = await Twofa.find({
+    userId,
   });
 
-  if (!user) {
-    throw new Error("Invalid credentials");
+  if (!authenticators.length) {
+    throw new Error("You do not have 2FA enabled.");
   }
 
-  const user2fa = await Twofa.findOne({
-    userId: user._id,
-  });
+  const enabled = authenticators.some((authenticator) => authenticator.status);
 
-  // Verify the token against the secret
-  const verified = await speakEasyVerify(user2fa.secret, token);
-  if (!verified) {
-    throw new Error("Invalid OTP, try again.");
+  // A pending enrollment never protected the account, it is dropped as is and any other factor stays
+  if (!enabled) {
+    await Twofa.deleteMany({ userId, status: false });
+    return true;
   }
 
+  await withRateLimit(otpRules(client.ip, userId), async () => {
+    if (proof.token) {
+      if (!(await matchActiveAuthenticator(userId, proof.token))) {
+        throw new Error("Invalid OTP, try again.");
+      }
+    } else if (proof.recoveryCode) {
+      if (!(await consumeRecoveryCode(userId, proof.recoveryCode, client))) {
+        throw new Error("Invalid or already used recovery code");
+      }
+    } else {
+      throw new Error(
+        "An authentication code or an unused recovery code is required"
+      );
+    }
+  });
+
+  await tearDown2fa(userId, client, true);
+
   return true;
 }
 
-export async function delete2fa(userId: string): Promise<boolean> {
+// NOTE: Next to an authenticator app the phone goes on the step-up alone, as the last factor it takes 2FA with it.
+// Returns whether 2FA was turned off, the caller then revokes the tokens minted while it was on.
+export async function removePhoneFactor(
+  userId: string,
+  proof: { smsCode?: string; recoveryCode?: string },
+  client: ClientInfo
+): Promise<boolean> {
   await connectToDatabase();
-  const user2fa = await getTwofaByUserId(userId);
 
-  if (!user2fa) {
-    throw new Error("You do not have 2FA enabled.");
+  const factor = await PhoneFactor.findOne({ userId });
+  if (!factor) {
+    throw new Error("No phone number enrolled");
   }
 
-  await Twofa.deleteOne({
-    userId,
+  const lastFactor =
+    factor.status && !(await Twofa.exists({ userId, status: true }));
+
+  if (!lastFactor) {
+    await clearPhoneFactor(userId);
+    return false;
+  }
+
+  // A code of its own, the step-up only proved the session belongs to the user
+  await withRateLimit(otpRules(client.ip, userId), async () => {
+    if (proof.smsCode) {
+      await verifySmsOtp(userId, "phone_removal", proof.smsCode);
+    } else if (proof.recoveryCode) {
+      if (!(await consumeRecoveryCode(userId, proof.recoveryCode, client))) {
+        throw new Error("Invalid or already used recovery code");
+      }
+    } else {
+      throw new Error("An SMS code or an unused recovery code is required");
+    }
   });
 
+  await tearDown2fa(userId, client, true);
+
   return true;
 }
 
+// An active authenticator when there is one, the pending enrollment otherwise
 export async function getTwofaByUserId(userId: string) {
   await connectToDatabase();
   return Twofa.findOne({
     userId,
-  });
+  })
+    .sort({ status: -1, lastUsedAt: -1 })
+    .select("-secret");
+}
+
+// The most recently used authenticator, its digits size the OTP prompts
+export async function getActive2faByUserId(userId: string) {
+  await connectToDatabase();
+  return Twofa.findOne({
+    userId,
+    status: true,
+  })
+    .sort({ lastUsedAt: -1 })
+    .select("-secret");
 }
 
-export async function getTwofaByEmail(email: string) {
+// Every code length the active authenticators produce, an OTP prompt has to accept any of them
+export async function getActiveOtpDigits(userId: string): Promise<number[]> {
   await connectToDatabase();
 
-  const user = await User.findOne({
-    email,
+  const digits: (number | null)[] = await Twofa.distinct("digits", {
+    userId,
+    status: true,
   });
 
-  if (!user) {
-    throw new Error("Invalid credentials");
+  return Array.from(new Set(digits.map((value) => value || 6))).sort(
+    (a, b) => a - b
+  );
+}
+
+export async function getUserAuthenticators(
+  userId: string
+): Promise<IAuthenticator[]> {
+  await connectToDatabase();
+
+  const authenticators = await Twofa.find({
+    userId,
+    status: true,
+  }).sort({ createdAt: 1 });
+
+  return authenticators.map((authenticator) => ({
+    _id: authenticator._id.toString(),
+    name: authenticator.name,
+    type: authenticator.type || "totp",
+    digits: authenticator.digits,
+    period: authenticator.period,
+    algorithm: authenticator.algorithm,
+    createdAt: authenticator.createdAt,
+    lastUsedAt: authenticator.lastUsedAt,
+  }));
+}
+
+export async function renameAuthenticator(
+  userId: string,
+  authenticatorId: string,
+  name: unknown
+): Promise<void> {
+  await connectToDatabase();
+
+  const authenticator = await Twofa.findOneAndUpdate(
+    { _id: authenticatorId, userId, status: true },
+    { name: normalizeAuthenticatorName(name) }
+  );
+
+  if (!authenticator) {
+    throw new Error("Authenticator not found");
   }
+}
 
-  return Twofa.findOne({
-    userId: user._id,
+// NOTE: Removing the last authenticator would be disabling 2FA, that has its own, stricter path.
+export async function removeAuthenticator(
+  userId: string,
+  authenticatorId: string
+): Promise<void> {
+  await connectToDatabase();
+
+  const removed = await Twofa.findOneAndDelete({
+    _id: authenticatorId,
+    userId,
+    status: true,
   });
+
+  if (!removed) {
+    throw new Error("Authenticator not found");
+  }
+
+  // Counted after the delete, two concurrent removals can't both see another one left.
+  // If none is left this one goes back untouched, same _id and counters.
+  const remaining = await Twofa.countDocuments({ userId, status: true });
+  if (remaining === 0) {
+    await Twofa.collection.insertOne(removed.toObject());
+    throw new Error(
+      "Cannot remove the last authenticator, disable 2FA instead"
+    );
+  }
 }
 
-export async function getActive2faByUserId(userId: string) {
+// NOTE: Two consecutive codes put a drifted HOTP token back in step, further ahead than a sign-in looks.
+export async function resyncAuthenticator(
+  userId: string,
+  authenticatorId: string,
+  firstCode: string,
+  secondCode: string,
+  client: ClientInfo
+): Promise<void> {
   await connectToDatabase();
-  return Twofa.findOne({
+
+  const authenticator = await Twofa.findOne({
+    _id: authenticatorId,
     userId,
     status: true,
   });
+
+  if (!authenticator) {
+    throw new Error("Authenticator not found");
+  }
+
+  if (authenticator.type !== "hotp") {
+    throw new Error("Only HOTP authenticators can be resynchronized");
+  }
+
+  await withRateLimit(otpRules(client.ip, userId), async () => {
+    const secret = openSecret(authenticator.secret, authenticator.keyVersion);
+    const config = getTotpConfig(authenticator);
+    const lastCounter = authenticator.counter + getHotpResyncWindow();
+
+    let counter = authenticator.counter;
+    while (counter <= lastCounter) {
+      const match = speakEasyVerifyHotp(
+        secret,
+        firstCode,
+        config,
+        counter,
+        lastCounter - counter
+      );
+      if (match === null) break;
+
+      if (speakEasyVerifyHotp(secret, secondCode, config, match + 1, 0) !== null) {
+        // Compare-and-set, a sign-in that moved the counter meanwhile wins
+        const resynced = await Twofa.findOneAndUpdate(
+          { _id: authenticator._id, counter: authenticator.counter },
+          { counter: match + 2, lastUsedAt: new Date() }
+        );
+        if (resynced) return;
+        break;
+      }
+
+      // The first code also matched by chance further back, keep looking
+      counter = match + 1;
+    }
+
+    throw new Error(
+      "Invalid OTP, the codes are not consecutive or too far ahead"
+    );
+  });
 }
 
-async function speakEasyVerify(
-  secret: string,
+// NOTE: Any active authenticator satisfies the check, each one keeps its own replay counter.
+async function matchActiveAuthenticator(
+  userId: string,
   token: string
 ): Promise<boolean> {
+  const authenticators = await Twofa.find({
+    userId,
+    status: true,
+  });
+
+  for (const authenticator of authenticators) {
+    if (
+      await consumeAuthenticatorCode(authenticator, token, {
+        lastUsedAt: new Date(),
+      })
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Checks the code against one authenticator and burns it, HOTP by counter and TOTP by time step
+async function consumeAuthenticatorCode(
+  authenticator: any,
+  token: string,
+  update: Record<string, unknown>
+): Promise<boolean> {
+  const secret = openSecret(authenticator.secret, authenticator.keyVersion);
+  const config = getTotpConfig(authenticator);
+
+  if (authenticator.type === "hotp") {
+    const counter = speakEasyVerifyHotp(
+      secret,
+      token,
+      config,
+      authenticator.counter,
+      getHotpLookAhead()
+    );
+
+    return (
+      counter !== null &&
+      (await consumeHotpCounter(
+        authenticator._id,
+        authenticator.counter,
+        counter,
+        update
+      ))
+    );
+  }
+
+  const step = await speakEasyVerify(secret, token, config);
+
+  return (
+    step !== null &&
+    (await consumeTotpStep(authenticator._id, step, update))
+  );
+}
+
+function normalizeAuthenticatorName(name: unknown): string {
+  if (name === undefined || name === null || name === "") {
+    return DEFAULT_AUTHENTICATOR_NAME;
+  }
+
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.trim().length > MAX_AUTHENTICATOR_NAME_LENGTH
+  ) {
+    throw new Error(
+      `Invalid authenticator name, use 1 to ${MAX_AUTHENTICATOR_NAME_LENGTH} characters`
+    );
+  }
+
+  return name.trim();
+}
+
+// Returns the time step the token matched, or null
+async function speakEasyVerify(
+  secret: string,
+  token: string,
+  config: TotpConfig
+): Promise<number | null> {
   try {
     await connectToDatabase();
-    return speakeasy.totp.verify({
+    const time = Math.floor(Date.now() / 1000);
+
+    const match = speakeasy.totp.verifyDelta({
       secret,
       encoding: "base32",
       token,
       window: 2,
+      time,
+      digits: config.digits,
+      step: config.period,
+      algorithm: config.algorithm,
     });
+
+    if (!match) return null;
+
+    return Math.floor(time / config.period) + match.delta;
   } catch (error) {
     throw new Error(`speakEasyVerify: unable to perform OTP verification`);
   }
-}
\ No newline at end of file
+}
+
+// Returns the counter the token matched at or after the expected one, or null
+function speakEasyVerifyHotp(
+  secret: string,
+  token: string,
+  config: TotpConfig,
+  counter: number,
+  window: number
+): number | null {
+  try {
+    // Looks ahead only, a code from before the stored counter has been used or skipped
+    const match = speakeasy.hotp.verifyDelta({
+      secret,
+      encoding: "base32",
+      token,
+      counter,
+      window,
+      digits: config.digits,
+      algorithm: config.algorithm,
+    });
+
+    return match ? counter + match.delta : null;
+  } catch (error) {
+    throw new Error(`speakEasyVerifyHotp: unable to perform OTP verification`);
+  }
+}
+
+// Compare-and-set on the counter, the same code cannot be accepted twice
+async function consumeHotpCounter(
+  twofaId: string,
+  expectedCounter: number,
+  matchedCounter: number,
+  update: Record<string, unknown> = {}
+): Promise<boolean> {
+  const consumed = await Twofa.findOneAndUpdate(
+    { _id: twofaId, counter: expectedCounter },
+    { ...update, counter: matchedCounter + 1 }
+  );
+
+  return !!consumed;
+}
+
+// NOTE: Compare-and-set on lastUsedStep, of two requests racing with the same code only one wins.
+async function consumeTotpStep(
+  twofaId: string,
+  step: number,
+  update: Record<string, unknown> = {}
+): Promise<boolean> {
+  const consumed = await Twofa.findOneAndUpdate(
+    {
+      _id: twofaId,
+      $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }],
+    },
+    { ...update, lastUsedStep: step }
+  );
+
+  return !!consumed;
+}
+
+// Every factor goes, this is 2FA as a whole
+async function tearDown2fa(
+  userId: string,
+  client: ClientInfo,
+  notify: boolean
+): Promise<void> {
+  await Twofa.deleteMany({
+    userId,
+  });
+  await removeAllWebauthnCredentials(userId);
+  await disableEmailOtp(userId);
+  await clearPhoneFactor(userId);
+  await invalidateUserRecoveryCodes(userId);
+  await revokeAllTrustedDevices(userId, "twofa_disabled");
+
+  if (notify) {
+    const { browser, os } = parseUserAgent(client.userAgent);
+    await createNotification(
+      userId,
+      TWOFA_DISABLED,
+      `Two-factor authentication was turned off from ${browser} on ${os}${
+        client.ip ? ` (${client.ip})` : ""
+      } and your recovery codes were invalidated. If this wasn't you, change your password and turn 2FA back on.`
+    );
+  }
+}
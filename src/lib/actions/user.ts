@@ -3,10 +3,56 @@
 import { connectToDatabase } from "../database/connection/mongoose";
 import { handleError } from "../utils";
 import User from "../database/models/users.model";
-import jwt from "jsonwebtoken";
 import bcrypt, { hash } from "bcrypt";
-import { CreateUserParams, UpdateUserParams } from "@/types";
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from "@simplewebauthn/server";
+import {
+  ClientInfo,
+  CreateUserParams,
+  LoginResult,
+  MfaMethod,
+  UpdateUserParams,
+} from "@/types";
 import { processRecoveryCodeForSignin } from "./recovery-codes";
+import {
+  getActive2faByUserId,
+  getActiveOtpDigits,
+  verify2faToken,
+} from "./twofa";
+import {
+  hasWebauthnCredentials,
+  startWebauthnAuthentication,
+  verifyWebauthnAssertion,
+} from "./webauthn";
+import {
+  isEmailOtpEnabled,
+  sendEmailOtp,
+  verifyEmailOtp,
+} from "./email-otp";
+import { hasActivePhoneFactor, sendSmsOtp, verifySmsOtp } from "./sms-otp";
+import { createSession, markSessionSteppedUp } from "./session";
+import { consumeToken } from "./revoked-tokens";
+import { isTokenRevoked } from "../token-status";
+import {
+  consumeTrustedDevice,
+  revokeAllTrustedDevices,
+  trustDevice,
+} from "./trusted-devices";
+import {
+  ISignedTokenPayload,
+  getTrustedDeviceDays,
+  signMfaChallengeToken,
+  verifyMfaChallengeToken,
+} from "../tokens";
+import {
+  assertNotRateLimited,
+  loginRules,
+  otpAccountRule,
+  otpRules,
+  withRateLimit,
+} from "../rate-limit";
 
 export async function createUser(user: CreateUserParams) {
   try {
@@ -27,48 +73,401 @@ export async function createUser(user: CreateUserParams) {
   }
 }
 
-export async function loginUser(email: string, password: string) {
+export async function loginUser(
+  email: string,
+  password: string,
+  client: ClientInfo,
+  trustedDeviceToken?: string | null
+): Promise<LoginResult | undefined> {
   try {
     await connectToDatabase();
 
-    const user = await User.findOne({ email });
+    return await withRateLimit(loginRules(client.ip, email), async () => {
+      const user = await User.findOne({ email });
 
-    if (!user) {
-      handleError("Invalid email");
-    }
+      if (!user) {
+        handleError("Invalid email");
+      }
+
+      const passwordMatch = await bcrypt.compare(
+        password,
+        user?.password as string
+      );
+
+      if (!passwordMatch) {
+        handleError("Invalid Credentials");
+      }
+
+      // An account locked on the OTP step stays locked, a correct password does not lift it
+      await assertNotRateLimited([otpAccountRule(user._id.toString())]);
+
+      // NOTE: With 2FA on, the password only buys a challenge, never a session.
+      const user2fa = await getActive2faByUserId(user._id.toString());
+      // Users without an authenticator app can have an enrolled phone as their only factor
+      const smsEnrolled = await hasActivePhoneFactor(user._id.toString());
+      if (user2fa || smsEnrolled) {
+        // A remembered browser skips the second factor, the session still needs a step-up later
+        if (
+          trustedDeviceToken &&
+          (await consumeTrustedDevice(
+            user._id.toString(),
+            trustedDeviceToken,
+            client
+          ))
+        ) {
+          return createSession(user._id.toString(), client, {
+            steppedUp: false,
+          });
+        }
+
+        const challengeToken = signMfaChallengeToken(user._id.toString());
+        const mfaMethods: MfaMethod[] = user2fa ? ["totp"] : [];
+        if (smsEnrolled) {
+          mfaMethods.push("sms");
+        }
+        if (await hasWebauthnCredentials(user._id.toString())) {
+          mfaMethods.push("webauthn");
+        }
+        if (await isEmailOtpEnabled(user._id.toString())) {
+          mfaMethods.push("email");
+        }
+
+        // The client sizes its OTP input from this, the code length is per enrollment
+        return {
+          mfaRequired: true,
+          challengeToken,
+          otpDigits: user2fa?.digits || 6,
+          otpDigitOptions: user2fa
+            ? await getActiveOtpDigits(user._id.toString())
+            : [],
+          mfaMethods,
+          trustDeviceDays: getTrustedDeviceDays(),
+        };
+      }
+
+      return createSession(user._id.toString(), client);
+    });
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function verifyLoginChallenge(
+  challengeToken: string,
+  twofaToken: string,
+  client: ClientInfo,
+  rememberDevice = false
+) {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
+    const userId = challenge.userId;
+
+    await withRateLimit(otpRules(client.ip, userId), () =>
+      verify2faToken(userId, twofaToken)
+    );
+
+    return await completeLoginChallenge(challenge, client, rememberDevice);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function startLoginWebauthn(
+  challengeToken: string
+): Promise<PublicKeyCredentialRequestOptionsJSON | undefined> {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
+
+    // No fresh ceremonies for an account locked on the second factor
+    await assertNotRateLimited([otpAccountRule(challenge.userId)]);
+
+    return await startWebauthnAuthentication(challenge.userId);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// NOTE: A security key assertion is the second factor, the same as a TOTP code.
+export async function verifyLoginWebauthn(
+  challengeToken: string,
+  response: AuthenticationResponseJSON,
+  client: ClientInfo,
+  rememberDevice = false
+) {
+  try {
+    await connectToDatabase();
 
-    const validRecoveryCode = await processRecoveryCodeForSignin(
-      email,
-      password
+    const challenge = await resolveLoginChallenge(challengeToken);
+    const userId = challenge.userId;
+
+    await withRateLimit(otpRules(client.ip, userId), () =>
+      verifyWebauthnAssertion(userId, response)
     );
 
-    if (validRecoveryCode) {
-      const token = jwt.sign({ userId: user._id }, process.env.JWT_SECRET!, {
-        expiresIn: "1d",
-      });
+    return await completeLoginChallenge(challenge, client, rememberDevice);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// Returns the masked address, the modal tells the user which inbox to check
+export async function sendLoginEmailOtp(
+  challengeToken: string
+): Promise<string | undefined> {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
 
-      return { token };
+    // No fresh codes for an account locked on the second factor
+    await assertNotRateLimited([otpAccountRule(challenge.userId)]);
+
+    if (!(await isEmailOtpEnabled(challenge.userId))) {
+      handleError("Email codes are not enabled for this account");
     }
 
-    const passwordMatch = await bcrypt.compare(
-      password,
-      user?.password as string
+    return await sendEmailOtp(challenge.userId, "login");
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function verifyLoginEmailOtp(
+  challengeToken: string,
+  code: string,
+  client: ClientInfo,
+  rememberDevice = false
+) {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
+    const userId = challenge.userId;
+
+    await withRateLimit(otpRules(client.ip, userId), () =>
+      verifyEmailOtp(userId, "login", code)
     );
 
-    if (!passwordMatch) {
-      handleError("Invalid Credentials");
+    return await completeLoginChallenge(challenge, client, rememberDevice);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// Returns the masked number, the modal tells the user which phone to check
+export async function sendLoginSmsOtp(
+  challengeToken: string,
+  client: ClientInfo
+): Promise<string | undefined> {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
+
+    // No fresh codes for an account locked on the second factor
+    await assertNotRateLimited([otpAccountRule(challenge.userId)]);
+
+    return await sendSmsOtp(challenge.userId, "login", client);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function verifyLoginSmsOtp(
+  challengeToken: string,
+  code: string,
+  client: ClientInfo,
+  rememberDevice = false
+) {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
+    const userId = challenge.userId;
+
+    await withRateLimit(otpRules(client.ip, userId), () =>
+      verifySmsOtp(userId, "login", code)
+    );
+
+    return await completeLoginChallenge(challenge, client, rememberDevice);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// NOTE: A recovery code replaces the second factor only, the challenge proves the password step.
+export async function loginUserWithRecoveryCode(
+  challengeToken: string,
+  code: string,
+  client: ClientInfo,
+  rememberDevice = false
+) {
+  try {
+    await connectToDatabase();
+
+    const challenge = await resolveLoginChallenge(challengeToken);
+    const userId = challenge.userId;
+
+    // Recovery codes share the OTP counters, otherwise they would be the unthrottled way in
+    const validRecoveryCode = await withRateLimit(
+      otpRules(client.ip, userId),
+      () => processRecoveryCodeForSignin(userId, code, client),
+      (valid) => valid
+    );
+
+    if (!validRecoveryCode) {
+      handleError("Invalid or already used recovery code");
     }
 
-    const token = jwt.sign({ userId: user._id }, process.env.JWT_SECRET!, {
-      expiresIn: "1d",
+    return await completeLoginChallenge(challenge, client, rememberDevice);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  client: ClientInfo
+) {
+  try {
+    await connectToDatabase();
+
+    // Shares the OTP counters like the step-up, a stolen session must not become a password oracle
+    await withRateLimit(otpRules(client.ip, userId), async () => {
+      const user = await User.findOne({ _id: userId });
+      if (!user) {
+        handleError("User not found");
+      }
+
+      const passwordMatch = await bcrypt.compare(
+        currentPassword,
+        user.password
+      );
+      if (!passwordMatch) {
+        handleError("Current password is incorrect");
+      }
     });
 
-    return { token };
+    await User.findOneAndUpdate(
+      { _id: userId },
+      { password: await hash(newPassword, 10) }
+    );
+
+    // A remembered browser must not outlive the password it was trusted with
+    await revokeAllTrustedDevices(userId, "password_changed");
+
+    return true;
   } catch (error) {
     handleError(error);
   }
 }
 
+// NOTE: Step-up for sensitive actions, the same factors as signing in on an already open session.
+export async function reauthenticateUser(
+  userId: string,
+  sessionId: string,
+  password: string,
+  proof: { token?: string; smsCode?: string },
+  client: ClientInfo
+): Promise<Date | undefined> {
+  try {
+    await connectToDatabase();
+
+    // Shares the OTP counters, a stolen session must not become a password or TOTP oracle
+    await withRateLimit(otpRules(client.ip, userId), async () => {
+      const user = await User.findOne({ _id: userId });
+      if (!user) {
+        handleError("User not found");
+      }
+
+      const passwordMatch = await bcrypt.compare(password, user.password);
+      if (!passwordMatch) {
+        handleError("Invalid Credentials");
+      }
+
+      if (await getActive2faByUserId(userId)) {
+        if (!proof.token) {
+          handleError("Invalid OTP, the authentication code is required");
+        }
+        await verify2faToken(userId, proof.token as string);
+      } else if (await hasActivePhoneFactor(userId)) {
+        // A phone-only account is still a 2FA account, the password alone is not enough
+        if (!proof.smsCode) {
+          handleError("Invalid SMS code, the texted code is required");
+        }
+        await verifySmsOtp(userId, "step_up", proof.smsCode as string);
+      }
+    });
+
+    return await markSessionSteppedUp(userId, sessionId);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// Texts a code for the step-up, or for removing the phone once it is the last factor
+export async function sendAccountSmsOtp(
+  userId: string,
+  purpose: "step_up" | "phone_removal",
+  client: ClientInfo
+): Promise<string | undefined> {
+  try {
+    await connectToDatabase();
+
+    // No fresh codes for an account locked on the second factor
+    await assertNotRateLimited([otpAccountRule(userId)]);
+
+    return await sendSmsOtp(userId, purpose, client);
+  } catch (error) {
+    handleError(error);
+  }
+}
+
+// A challenge opens exactly one session, optionally remembering the browser it was completed on
+async function completeLoginChallenge(
+  challenge: ISignedTokenPayload,
+  client: ClientInfo,
+  rememberDevice: boolean
+): Promise<LoginResult> {
+  // Spent before the session exists, a concurrent submission of the same challenge loses here
+  if (!(await consumeToken(challenge))) {
+    throw new Error("Invalid or expired login challenge");
+  }
+
+  const session = await createSession(challenge.userId, client);
+  if (!rememberDevice) {
+    return session;
+  }
+
+  return {
+    ...session,
+    trustedDevice: await trustDevice(challenge.userId, client),
+  };
+}
+
+async function resolveLoginChallenge(challengeToken: string) {
+  const challenge = verifyMfaChallengeToken(challengeToken);
+
+  if (
+    await isTokenRevoked(challenge.jti, challenge.userId, challenge.iat)
+  ) {
+    throw new Error("Invalid or expired login challenge");
+  }
+
+  const user = await User.findOne({ _id: challenge.userId });
+  if (!user) {
+    throw new Error("Invalid login challenge");
+  }
+
+  return challenge;
+}
+
 export async function getUserById(userId: string) {
   try {
     await connectToDatabase();
@@ -0,0 +1,282 @@
+"use server";
+
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { connectToDatabase } from "../database/connection/mongoose";
+import WebauthnCredential from "../database/models/webauthn-credential.model";
+import WebauthnChallenge from "../database/models/webauthn-challenge.model";
+import User from "../database/models/users.model";
+import Twofa from "../database/models/twofa.model";
+import {
+  StoredWebauthnCredential,
+  WEBAUTHN_TIMEOUT_MS,
+  buildAuthenticationOptions,
+  buildRegistrationOptions,
+  getWebauthnConfig,
+  verifyAuthentication,
+  verifyRegistration,
+} from "../webauthn";
+import { IWebauthnCredential } from "@/types";
+
+type WebauthnCeremony = "registration" | "authentication";
+
+const DEFAULT_CREDENTIAL_NAME = "Security key";
+const MAX_CREDENTIAL_NAME_LENGTH = 50;
+
+// NOTE: Security keys sit next to TOTP, they never replace the authenticator app that recovery codes hang off.
+export async function startWebauthnRegistration(
+  userId: string
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  await connectToDatabase();
+
+  if (!(await Twofa.exists({ userId, status: true }))) {
+    throw new Error(
+      "Enable 2FA with an authenticator app before adding a security key"
+    );
+  }
+
+  const user = await User.findOne({ _id: userId });
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const options = await buildRegistrationOptions(
+    getWebauthnConfig(),
+    { id: userId, email: user.email },
+    await findStoredCredentials(userId)
+  );
+  await storeChallenge(userId, "registration", options.challenge);
+
+  return options;
+}
+
+export async function finishWebauthnRegistration(
+  userId: string,
+  response: RegistrationResponseJSON,
+  name?: unknown
+): Promise<IWebauthnCredential> {
+  await connectToDatabase();
+
+  const credentialName = normalizeCredentialName(name);
+  const expectedChallenge = await consumeChallenge(userId, "registration");
+
+  const verified = await verifyRegistration(
+    getWebauthnConfig(),
+    response,
+    expectedChallenge
+  );
+
+  if (
+    await WebauthnCredential.exists({ credentialId: verified.credentialId })
+  ) {
+    throw new Error("This security key is already registered");
+  }
+
+  const credential = await WebauthnCredential.create({
+    userId,
+    name: credentialName,
+    ...verified,
+  });
+
+  return toCredentialListItem(credential);
+}
+
+export async function startWebauthnAuthentication(
+  userId: string
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  await connectToDatabase();
+
+  const credentials = await findStoredCredentials(userId);
+  if (!credentials.length) {
+    throw new Error("No security keys registered");
+  }
+
+  const options = await buildAuthenticationOptions(
+    getWebauthnConfig(),
+    credentials
+  );
+  await storeChallenge(userId, "authentication", options.challenge);
+
+  return options;
+}
+
+// Throws unless the assertion is valid, callers wrap this in the OTP rate limits
+export async function verifyWebauthnAssertion(
+  userId: string,
+  response: AuthenticationResponseJSON
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const expectedChallenge = await consumeChallenge(userId, "authentication");
+
+  const credential = await WebauthnCredential.findOne({
+    userId,
+    credentialId: response?.id,
+  });
+  if (!credential) {
+    throw new Error("Invalid WebAuthn assertion: unknown security key");
+  }
+
+  const newCounter = await verifyAuthentication(
+    getWebauthnConfig(),
+    response,
+    expectedChallenge,
+    toStoredCredential(credential)
+  );
+
+  // Compare-and-set on the counter, the same assertion cannot be replayed in a race
+  const updated = await WebauthnCredential.findOneAndUpdate(
+    { _id: credential._id, counter: credential.counter },
+    { counter: newCounter, lastUsedAt: new Date() }
+  );
+  if (!updated) {
+    throw new Error("Invalid WebAuthn assertion: counter mismatch");
+  }
+
+  return true;
+}
+
+export async function hasWebauthnCredentials(userId: string): Promise<boolean> {
+  await connectToDatabase();
+
+  return !!(await WebauthnCredential.exists({ userId }));
+}
+
+export async function getUserWebauthnCredentials(
+  userId: string
+): Promise<IWebauthnCredential[]> {
+  await connectToDatabase();
+
+  const credentials = await WebauthnCredential.find({ userId }).sort({
+    createdAt: 1,
+  });
+
+  return credentials.map(toCredentialListItem);
+}
+
+export async function renameWebauthnCredential(
+  userId: string,
+  credentialId: string,
+  name: unknown
+): Promise<void> {
+  await connectToDatabase();
+
+  const credential = await WebauthnCredential.findOneAndUpdate(
+    { _id: credentialId, userId },
+    { name: normalizeCredentialName(name) }
+  );
+
+  if (!credential) {
+    throw new Error("Security key not found");
+  }
+}
+
+export async function removeWebauthnCredential(
+  userId: string,
+  credentialId: string
+): Promise<void> {
+  await connectToDatabase();
+
+  const credential = await WebauthnCredential.findOneAndDelete({
+    _id: credentialId,
+    userId,
+  });
+
+  if (!credential) {
+    throw new Error("Security key not found");
+  }
+}
+
+// Part of turning 2FA off as a whole
+export async function removeAllWebauthnCredentials(
+  userId: string
+): Promise<void> {
+  await connectToDatabase();
+
+  await WebauthnCredential.deleteMany({ userId });
+  await WebauthnChallenge.deleteMany({ userId });
+}
+
+async function findStoredCredentials(
+  userId: string
+): Promise<StoredWebauthnCredential[]> {
+  const credentials = await WebauthnCredential.find({ userId });
+
+  return credentials.map(toStoredCredential);
+}
+
+// A new ceremony replaces any unfinished one of the same kind
+async function storeChallenge(
+  userId: string,
+  purpose: WebauthnCeremony,
+  challenge: string
+) {
+  await WebauthnChallenge.findOneAndUpdate(
+    { userId, purpose },
+    {
+      challenge,
+      expiresAt: new Date(Date.now() + 2 * WEBAUTHN_TIMEOUT_MS),
+    },
+    { upsert: true }
+  );
+}
+
+// NOTE: Deleted on read, a challenge backs exactly one verification attempt.
+async function consumeChallenge(
+  userId: string,
+  purpose: WebauthnCeremony
+): Promise<string> {
+  const stored = await WebauthnChallenge.findOneAndDelete({
+    userId,
+    purpose,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!stored) {
+    throw new Error("WebAuthn challenge not found or expired");
+  }
+
+  return stored.challenge;
+}
+
+function toStoredCredential(credential: any): StoredWebauthnCredential {
+  return {
+    credentialId: credential.credentialId,
+    publicKey: credential.publicKey,
+    counter: credential.counter,
+    transports: credential.transports || [],
+  };
+}
+
+function toCredentialListItem(credential: any): IWebauthnCredential {
+  return {
+    _id: credential._id.toString(),
+    name: credential.name,
+    deviceType: credential.deviceType,
+    backedUp: credential.backedUp,
+    createdAt: credential.createdAt,
+    lastUsedAt: credential.lastUsedAt,
+  };
+}
+
+function normalizeCredentialName(name: unknown): string {
+  if (name === undefined || name === null || name === "") {
+    return DEFAULT_CREDENTIAL_NAME;
+  }
+
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    name.trim().length > MAX_CREDENTIAL_NAME_LENGTH
+  ) {
+    throw new Error(
+      `Invalid security key name, use 1 to ${MAX_CREDENTIAL_NAME_LENGTH} characters`
+    );
+  }
+
+  return name.trim();
+}
@@ -0,0 +1,134 @@
+import type { NextResponse } from "next/server";
+
+// NOTE: No Node-only imports here, this module is shared with the browser bundle.
+export const ACCESS_TOKEN_COOKIE = "access_token";
+export const REFRESH_TOKEN_COOKIE = "refresh_token";
+export const CSRF_TOKEN_COOKIE = "csrf_token";
+// Outlives sign-outs on purpose, it only skips the second factor of the next sign-in
+export const TRUSTED_DEVICE_COOKIE = "trusted_device";
+export const CSRF_HEADER = "X-CSRF-Token";
+
+const ACCESS_TOKEN_MAX_AGE = 15 * 60;
+const REFRESH_TOKEN_MAX_AGE = 30 * 24 * 60 * 60;
+
+const secure = process.env.NODE_ENV === "production";
+
+export function setAuthCookies(
+  response: NextResponse,
+  tokens: {
+    token?: string;
+    refreshToken?: string;
+    trustedDevice?: { token: string; expiresAt: Date };
+  }
+) {
+  if (tokens.token) {
+    response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.token, {
+      httpOnly: true,
+      secure,
+      sameSite: "lax",
+      path: "/",
+      maxAge: ACCESS_TOKEN_MAX_AGE,
+    });
+  }
+
+  if (tokens.refreshToken) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      secure,
+      sameSite: "strict",
+      path: "/",
+      maxAge: REFRESH_TOKEN_MAX_AGE,
+    });
+
+    // Double-submit token, readable by our scripts only thanks to the same-origin policy
+    response.cookies.set(CSRF_TOKEN_COOKIE, generateCsrfToken(), {
+      httpOnly: false,
+      secure,
+      sameSite: "strict",
+      path: "/",
+      maxAge: REFRESH_TOKEN_MAX_AGE,
+    });
+  }
+
+  if (tokens.trustedDevice) {
+    response.cookies.set(TRUSTED_DEVICE_COOKIE, tokens.trustedDevice.token, {
+      httpOnly: true,
+      secure,
+      sameSite: "strict",
+      path: "/",
+      maxAge: Math.floor(
+        (new Date(tokens.trustedDevice.expiresAt).getTime() - Date.now()) / 1000
+      ),
+    });
+  }
+}
+
+export function clearAuthCookies(response: NextResponse) {
+  [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_TOKEN_COOKIE].forEach(
+    (name) => {
+      response.cookies.set(name, "", { path: "/", maxAge: 0 });
+    }
+  );
+}
+
+export function clearTrustedDeviceCookie(response: NextResponse) {
+  response.cookies.set(TRUSTED_DEVICE_COOKIE, "", { path: "/", maxAge: 0 });
+}
+
+export function getCookie(req: Request, name: string): string | null {
+  const cookieHeader = req.headers.get("cookie");
+  if (!cookieHeader) return null;
+
+  const cookie = cookieHeader
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : null;
+}
+
+// The access token cookie wins, the Authorization header stays for non-browser clients
+export function getAuthToken(req: Request): string | null {
+  const cookieToken = getCookie(req, ACCESS_TOKEN_COOKIE);
+  if (cookieToken) return cookieToken;
+
+  const header = req.headers.get("Authorization");
+  if (header?.startsWith("Bearer ")) return header.slice(7);
+
+  return null;
+}
+
+export function verifyCsrf(req: Request): boolean {
+  // Without a session cookie the caller authenticates by header, which a cross-site form cannot forge
+  if (
+    !getCookie(req, ACCESS_TOKEN_COOKIE) &&
+    !getCookie(req, REFRESH_TOKEN_COOKIE)
+  ) {
+    return true;
+  }
+
+  const cookieToken = getCookie(req, CSRF_TOKEN_COOKIE);
+  const headerToken = req.headers.get(CSRF_HEADER);
+
+  if (!cookieToken || !headerToken) return false;
+
+  return constantTimeEqual(cookieToken, headerToken);
+}
+
+function generateCsrfToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
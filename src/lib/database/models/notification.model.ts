@@ -0,0 +1,32 @@
+import { Schema, model, models } from "mongoose";
+
+const NotificationSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    // Machine readable kind, e.g. "recovery_codes_low"
+    type: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+NotificationSchema.index({ userId: 1, readAt: 1 });
+
+const Notification =
+  models?.Notification || model("Notification", NotificationSchema);
+
+export default Notification;
@@ -0,0 +1,36 @@
+import { Schema, model, models } from "mongoose";
+
+const PasswordResetSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    // SHA-256 of the token mailed to the user, the token itself is never stored
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    sentAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+// One outstanding link per user, requesting a new one replaces it
+PasswordResetSchema.index({ userId: 1 }, { unique: true });
+PasswordResetSchema.index({ tokenHash: 1 }, { unique: true });
+// Let MongoDB purge links once they can no longer be used
+PasswordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const PasswordReset =
+  models?.PasswordReset || model("PasswordReset", PasswordResetSchema);
+
+export default PasswordReset;
@@ -0,0 +1,33 @@
+import { Schema, model, models } from "mongoose";
+
+// At most one phone per user, status flips to true once a code sent to it was entered
+const PhoneFactorSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    // E.164, e.g. +14155550123
+    phoneNumber: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: Boolean,
+      default: false,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+PhoneFactorSchema.index({ userId: 1 }, { unique: true });
+
+const PhoneFactor =
+  models?.PhoneFactor || model("PhoneFactor", PhoneFactorSchema);
+
+export default PhoneFactor;
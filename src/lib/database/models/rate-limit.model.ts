@@ -0,0 +1,30 @@
+import { Schema, model, models } from "mongoose";
+
+const RateLimitSchema = new Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+RateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimit = models?.RateLimit || model("RateLimit", RateLimitSchema);
+
+export default RateLimit;
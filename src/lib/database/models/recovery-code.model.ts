@@ -7,7 +7,18 @@ const RecoveryCodeSchema = new Schema(
       required: "userId is required",
       ref: "User",
     },
-    code: {
+    // HMAC-SHA256 of the normalized code, the plaintext is never stored
+    codeHash: {
+      type: String,
+      required: true,
+    },
+    // Codes generated together share a batch id, printed on the recovery kit
+    batchId: {
+      type: String,
+      default: null,
+    },
+    // Last characters of the code, enough to tell masked codes apart
+    hint: {
       type: String,
       required: true,
     },
@@ -16,6 +27,19 @@ const RecoveryCodeSchema = new Schema(
       allowNull: false,
       default: false,
     },
+    // Where the code was used, so users can spot a sign-in they did not make
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+    usedIp: {
+      type: String,
+      default: null,
+    },
+    usedUserAgent: {
+      type: String,
+      default: null,
+    },
   },
   { timestamps: true } // This will add the createdAt and updatedAt fields
 );
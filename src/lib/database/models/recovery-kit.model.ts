@@ -0,0 +1,38 @@
+import { Schema, model, models } from "mongoose";
+
+// Sealed copy of a freshly generated batch, kept just long enough to download the kit
+const RecoveryKitSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    batchId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // JSON array of plaintext codes, sealed with src/lib/secret-box.ts
+    sealedCodes: {
+      type: String,
+      required: true,
+    },
+    keyVersion: {
+      type: Number,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+RecoveryKitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RecoveryKit =
+  models?.RecoveryKit || model("RecoveryKit", RecoveryKitSchema);
+
+export default RecoveryKit;
@@ -0,0 +1,39 @@
+import { Schema, model, models } from "mongoose";
+
+const RevokedTokenSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    // Set when a single token is revoked (logout, consumed login challenge)
+    jti: {
+      type: String,
+      default: null,
+    },
+    // Set when every token of the user issued before this instant is revoked
+    issuedBefore: {
+      type: Date,
+      default: null,
+    },
+    // Once every revoked token would have expired anyway the entry is useless
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+RevokedTokenSchema.index(
+  { jti: 1 },
+  { unique: true, partialFilterExpression: { jti: { $type: "string" } } }
+);
+RevokedTokenSchema.index({ userId: 1, issuedBefore: 1 });
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RevokedToken =
+  models?.RevokedToken || model("RevokedToken", RevokedTokenSchema);
+
+export default RevokedToken;
@@ -0,0 +1,63 @@
+import { Schema, model, models } from "mongoose";
+
+const SessionSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    // Only a SHA-256 digest of the current refresh token is kept, it is rotated on every refresh
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    // The digest it replaced and when, a tab racing another one to refresh is not a replay
+    previousRefreshTokenHash: {
+      type: String,
+      default: null,
+    },
+    rotatedAt: {
+      type: Date,
+      default: null,
+    },
+    userAgent: {
+      type: String,
+      default: "",
+    },
+    ip: {
+      type: String,
+      default: "",
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    // Last time the user proved password (and TOTP) on this session, sensitive actions need it to be recent
+    stepUpAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      default: null,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+SessionSchema.index({ userId: 1 });
+// Let MongoDB purge sessions once the refresh token can no longer be used
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = models?.Session || model("Session", SessionSchema);
+
+export default Session;
@@ -0,0 +1,43 @@
+import { Schema, model, models } from "mongoose";
+
+// One outstanding code per user and purpose, a new request replaces the old code
+const SmsOtpSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    purpose: {
+      type: String,
+      enum: ["login", "enrollment", "password_reset", "step_up", "phone_removal"],
+      required: true,
+    },
+    // HMAC-SHA256 of the user id and code, see src/lib/sms-otp.ts
+    codeHash: {
+      type: String,
+      required: true,
+    },
+    // Wrong guesses against this code, it is burnt once the limit is reached
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    sentAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+SmsOtpSchema.index({ userId: 1, purpose: 1 }, { unique: true });
+SmsOtpSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const SmsOtp = models?.SmsOtp || model("SmsOtp", SmsOtpSchema);
+
+export default SmsOtp;
@@ -0,0 +1,47 @@
+import { Schema, model, models } from "mongoose";
+
+const TrustedDeviceSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    // Browser the device token was issued to, shown in the dashboard list
+    userAgent: {
+      type: String,
+      default: "",
+    },
+    ip: {
+      type: String,
+      default: "",
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    // Mirrors the token expiry, a signed token is only honoured while its record lives
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      default: null,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+TrustedDeviceSchema.index({ userId: 1 });
+// Let MongoDB purge devices once their token can no longer be used
+TrustedDeviceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const TrustedDevice =
+  models?.TrustedDevice || model("TrustedDevice", TrustedDeviceSchema);
+
+export default TrustedDevice;
@@ -7,19 +7,68 @@ const TwofaSchema = new Schema(
       required: "userId is required",
       ref: "User",
     },
+    // A user can enroll several authenticators, the name tells them apart
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 50,
+      default: "Authenticator",
+    },
+    // AES-256-GCM sealed base32 seed, plaintext when keyVersion is 0 (pre-encryption records)
     secret: {
       type: String,
       required: true,
     },
+    keyVersion: {
+      type: Number,
+      default: 0,
+    },
     status: {
       type: Boolean,
       allowNull: false,
       default: false,
     },
+    type: {
+      type: String,
+      enum: ["totp", "hotp"],
+      default: "totp",
+    },
+    // HOTP only: the next counter value the token is expected to produce
+    counter: {
+      type: Number,
+      default: 0,
+    },
+    // NOTE: Defaults are the legacy speakeasy values, new enrollments always set these explicitly.
+    digits: {
+      type: Number,
+      enum: [6, 8],
+      default: 6,
+    },
+    period: {
+      type: Number,
+      enum: [30, 60],
+      default: 30,
+    },
+    algorithm: {
+      type: String,
+      enum: ["sha1", "sha256", "sha512"],
+      default: "sha1",
+    },
+    // TOTP only: time step of the last accepted code, anything at or below it is a replay
+    lastUsedStep: {
+      type: Number,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
   },
   { timestamps: true } // This will add the createdAt and updatedAt fields
 );
 
+TwofaSchema.index({ userId: 1, status: 1 });
+
 const Twofa = models?.Twofa || model("Twofa", TwofaSchema);
 
 export default Twofa;
\ No newline at end of file
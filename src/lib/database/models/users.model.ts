@@ -19,6 +19,16 @@ const UserSchema = new Schema(
       type: Boolean,
       default: false,
     },
+    // Set when the last recovery code is used, the dashboard stays closed until new codes are acknowledged
+    recoveryCodesRegenerationRequired: {
+      type: Boolean,
+      default: false,
+    },
+    // Opt-in fallback second factor, a one-time code sent to the account email
+    emailOtpEnabled: {
+      type: Boolean,
+      default: false,
+    },
   },
   { timestamps: true } 
 );
@@ -0,0 +1,35 @@
+import { Schema, model, models } from "mongoose";
+
+// One outstanding challenge per user and ceremony, consumed by the matching verification
+const WebauthnChallengeSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    purpose: {
+      type: String,
+      enum: ["registration", "authentication"],
+      required: true,
+    },
+    challenge: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+WebauthnChallengeSchema.index({ userId: 1, purpose: 1 }, { unique: true });
+WebauthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const WebauthnChallenge =
+  models?.WebauthnChallenge ||
+  model("WebauthnChallenge", WebauthnChallengeSchema);
+
+export default WebauthnChallenge;
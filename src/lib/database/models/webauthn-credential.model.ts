@@ -0,0 +1,60 @@
+import { Schema, model, models } from "mongoose";
+
+const WebauthnCredentialSchema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      required: "userId is required",
+      ref: "User",
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: 50,
+      default: "Security key",
+    },
+    // base64url credential id, as returned by the authenticator
+    credentialId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    // base64url COSE public key, nothing secret is stored for WebAuthn
+    publicKey: {
+      type: String,
+      required: true,
+    },
+    // Signature counter, a value that does not move forward points at a cloned key
+    counter: {
+      type: Number,
+      default: 0,
+    },
+    transports: {
+      type: [String],
+      default: [],
+    },
+    // "multiDevice" for synced passkeys, "singleDevice" for hardware keys
+    deviceType: {
+      type: String,
+      enum: ["singleDevice", "multiDevice"],
+      default: "singleDevice",
+    },
+    backedUp: {
+      type: Boolean,
+      default: false,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true } // This will add the createdAt and updatedAt fields
+);
+
+WebauthnCredentialSchema.index({ userId: 1 });
+
+const WebauthnCredential =
+  models?.WebauthnCredential ||
+  model("WebauthnCredential", WebauthnCredentialSchema);
+
+export default WebauthnCredential;
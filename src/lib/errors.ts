@@ -0,0 +1,41 @@
+// NOTE: Routes match on `name`, keep these names stable.
+export class TooManyRequestsError extends Error {
+  retryAfter: number;
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = "TooManyRequestsError";
+    // Seconds until the caller may try again, sent back as Retry-After
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ReauthRequiredError extends Error {
+  otpDigits: number | null;
+  smsRequired: boolean;
+  otpDigitOptions: number[];
+
+  constructor(
+    message: string,
+    otpDigits: number | null,
+    smsRequired = false,
+    otpDigitOptions: number[] = otpDigits ? [otpDigits] : []
+  ) {
+    super(message);
+    this.name = "ReauthRequiredError";
+    // Tells the client whether to ask for a TOTP code next to the password, and its length
+    this.otpDigits = otpDigits;
+    // Without an authenticator app a phone-only account confirms with a texted code
+    this.smsRequired = smsRequired;
+    // With authenticators of different lengths the prompt lets the user pick
+    this.otpDigitOptions = otpDigitOptions;
+  }
+}
+
+const TYPED_ERROR_NAMES = ["TooManyRequestsError", "ReauthRequiredError"];
+
+export function isTypedError(error: unknown): error is Error {
+  return (
+    error instanceof Error && TYPED_ERROR_NAMES.includes((error as Error).name)
+  );
+}
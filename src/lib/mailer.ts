@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import { TOTP_ISSUER } from "./totp";
+
+// NOTE: Server only. Transports are picked by MAIL_TRANSPORT, console and file keep mail on this machine.
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || `${TOTP_ISSUER} <no-reply@localhost>`;
+}
+
+// Development default, the message ends up in the server log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(
+      `[mail] to: ${message.to}\n[mail] subject: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+// One JSON file per message, scripts and local tests read codes back from the outbox
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage) {
+    await mkdir(this.dir, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${crypto
+      .randomBytes(4)
+      .toString("hex")}.json`;
+
+    await writeFile(
+      path.join(this.dir, fileName),
+      JSON.stringify({ from: getMailFrom(), ...message, sentAt }, null, 2)
+    );
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(url: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: getMailFrom(), ...message });
+  }
+}
+
+// Cached on global like the rate limit store, survives dev hot reloads
+declare global {
+  // eslint-disable-next-line no-var
+  var mailTransport: MailTransport | undefined;
+}
+
+export function getMailTransport(): MailTransport {
+  if (!global.mailTransport) {
+    global.mailTransport = createMailTransport();
+  }
+
+  return global.mailTransport;
+}
+
+function createMailTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp": {
+      const url = process.env.SMTP_URL;
+      if (!url) {
+        throw new Error("Missing SMTP_URL");
+      }
+      return new SmtpMailTransport(url);
+    }
+    case "file":
+      return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || ".outbox");
+    case "console":
+      return new ConsoleMailTransport();
+    default:
+      // Codes must not land in production logs by accident
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("Missing MAIL_TRANSPORT");
+      }
+      return new ConsoleMailTransport();
+  }
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return getMailTransport().send(message);
+}
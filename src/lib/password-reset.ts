@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import { MailMessage } from "./mailer";
+import { TOTP_ISSUER } from "./totp";
+
+// NOTE: Server only. Reset tokens carry 256 random bits, only their SHA-256 digest is stored.
+export function getPasswordResetTtlMinutes(): number {
+  const minutes = Number(process.env.PASSWORD_RESET_TTL_MINUTES);
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : 30;
+}
+
+// Reset links are built from configuration, never from the request Host header
+export function getAppUrl(): string {
+  const url = process.env.APP_URL;
+  if (!url) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("Missing APP_URL");
+    }
+    return "http://localhost:3000";
+  }
+  return url.replace(/\/+$/, "");
+}
+
+export function generatePasswordResetToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function hashPasswordResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token.trim()).digest("hex");
+}
+
+export function buildPasswordResetMessage(
+  to: string,
+  token: string
+): MailMessage {
+  // In the fragment, the token never reaches server logs or a Referer header
+  const link = `${getAppUrl()}/reset-password#token=${token}`;
+
+  return {
+    to,
+    subject: `Reset your ${TOTP_ISSUER} password`,
+    text: [
+      `Someone asked to reset the password of your ${TOTP_ISSUER} account.`,
+      "",
+      `Open this link to choose a new one: ${link}`,
+      "",
+      `It expires in ${getPasswordResetTtlMinutes()} minutes and works once. With two-factor authentication on, you will also need your authenticator app or a recovery code.`,
+      "",
+      "If you did not ask for this, ignore this email, your password stays as it is.",
+    ].join("\n"),
+  };
+}
+
+export function buildPasswordChangedMessage(to: string): MailMessage {
+  return {
+    to,
+    subject: `Your ${TOTP_ISSUER} password was reset`,
+    text: [
+      `The password of your ${TOTP_ISSUER} account was just reset and every session was signed out.`,
+      "",
+      "If this was not you, reset it again right away and review your two-factor settings.",
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,65 @@
+// NOTE: Server only. Just enough PDF 1.4 for a single page of Helvetica text, no dependency needed.
+export interface PdfLine {
+  text: string;
+  // Further cells on the same line, laid out at fixed column offsets
+  columns?: string[];
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  gap?: number;
+}
+
+const PAGE_WIDTH = 595; // A4
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const COLUMN_WIDTH = 240;
+
+export function renderTextPdf(lines: PdfLine[]): Buffer {
+  let y = PAGE_HEIGHT - MARGIN;
+  const content = lines
+    .map(({ text, columns = [], size = 11, bold = false, gap = 0 }) => {
+      y -= size * 1.4 + gap;
+      return [text, ...columns]
+        .map(
+          (cell, index) =>
+            `BT /${bold ? "F2" : "F1"} ${size} Tf ${
+              MARGIN + index * COLUMN_WIDTH
+            } ${y} Td (${escapePdfText(cell)}) Tj ET`
+        )
+        .join("\n");
+    })
+    .join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // The xref table needs the byte offset of every object
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+// Standard fonts only cover Latin-1, anything else becomes "?"
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+}
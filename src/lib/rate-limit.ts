@@ -0,0 +1,368 @@
+import { connectToDatabase } from "./database/connection/mongoose";
+import RateLimit from "./database/models/rate-limit.model";
+import { TooManyRequestsError } from "./errors";
+
+// NOTE: Server only, counters live in Mongo (shared across instances) or in process memory.
+export interface RateLimitRecord {
+  failures: number;
+  lockedUntil: Date | null;
+  expiresAt: Date;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitRecord | null>;
+  increment(key: string, windowMs: number): Promise<RateLimitRecord>;
+  lock(key: string, lockedUntil: Date, expiresAt: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+export interface RateLimitPolicy {
+  // Failures allowed inside the window before the key gets locked
+  maxFailures: number;
+  windowMs: number;
+  // First lockout, doubled on every failure past maxFailures
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+export interface RateLimitRule {
+  key: string;
+  policy: RateLimitPolicy;
+  // Per-IP counters survive a success, otherwise one valid account would reset them
+  resetOnSuccess: boolean;
+}
+
+const MINUTE = 60 * 1000;
+
+export const RATE_LIMIT_POLICIES = {
+  loginIp: {
+    maxFailures: 20,
+    windowMs: 15 * MINUTE,
+    baseLockoutMs: MINUTE,
+    maxLockoutMs: 60 * MINUTE,
+  },
+  loginAccount: {
+    maxFailures: 5,
+    windowMs: 15 * MINUTE,
+    baseLockoutMs: 30 * 1000,
+    maxLockoutMs: 15 * MINUTE,
+  },
+  otpIp: {
+    maxFailures: 20,
+    windowMs: 15 * MINUTE,
+    baseLockoutMs: MINUTE,
+    maxLockoutMs: 60 * MINUTE,
+  },
+  otpAccount: {
+    maxFailures: 5,
+    windowMs: 15 * MINUTE,
+    baseLockoutMs: 5 * MINUTE,
+    maxLockoutMs: 24 * 60 * MINUTE,
+  },
+  // Every SMS costs money and can be abused for toll fraud, sends are counted, not failures
+  smsSendIp: {
+    maxFailures: 10,
+    windowMs: 60 * MINUTE,
+    baseLockoutMs: 60 * MINUTE,
+    maxLockoutMs: 24 * 60 * MINUTE,
+  },
+  smsSendAccount: {
+    maxFailures: 5,
+    windowMs: 60 * MINUTE,
+    baseLockoutMs: 60 * MINUTE,
+    maxLockoutMs: 24 * 60 * MINUTE,
+  },
+  // Reset mails are counted like SMS sends, an inbox must not be flooded from the public form
+  passwordResetIp: {
+    maxFailures: 10,
+    windowMs: 60 * MINUTE,
+    baseLockoutMs: 60 * MINUTE,
+    maxLockoutMs: 24 * 60 * MINUTE,
+  },
+  passwordResetAccount: {
+    maxFailures: 3,
+    windowMs: 60 * MINUTE,
+    baseLockoutMs: 60 * MINUTE,
+    maxLockoutMs: 24 * 60 * MINUTE,
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, RateLimitRecord>();
+
+  async get(key: string) {
+    const record = this.records.get(key);
+    if (!record) return null;
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+
+    return record;
+  }
+
+  async increment(key: string, windowMs: number) {
+    const existing = await this.get(key);
+    const record: RateLimitRecord = existing
+      ? { ...existing, failures: existing.failures + 1 }
+      : {
+          failures: 1,
+          lockedUntil: null,
+          expiresAt: new Date(Date.now() + windowMs),
+        };
+
+    this.records.set(key, record);
+    return record;
+  }
+
+  async lock(key: string, lockedUntil: Date, expiresAt: Date) {
+    const record = await this.get(key);
+    if (!record) return;
+
+    this.records.set(key, { ...record, lockedUntil, expiresAt });
+  }
+
+  async reset(key: string) {
+    this.records.delete(key);
+  }
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  async get(key: string) {
+    await connectToDatabase();
+
+    const record = await RateLimit.findOne({
+      key,
+      expiresAt: { $gt: new Date() },
+    });
+
+    return record ? toRateLimitRecord(record) : null;
+  }
+
+  async increment(key: string, windowMs: number) {
+    await connectToDatabase();
+    const now = new Date();
+
+    // Atomic bump while the window is open, concurrent guesses all get counted
+    const record = await RateLimit.findOneAndUpdate(
+      { key, expiresAt: { $gt: now } },
+      { $inc: { failures: 1 } },
+      { new: true }
+    );
+
+    if (record) return toRateLimitRecord(record);
+
+    // No open window (or a stale one the TTL monitor has not swept yet), start over
+    const fresh = await RateLimit.findOneAndUpdate(
+      { key },
+      {
+        failures: 1,
+        lockedUntil: null,
+        expiresAt: new Date(now.getTime() + windowMs),
+      },
+      { upsert: true, new: true }
+    );
+
+    return toRateLimitRecord(fresh);
+  }
+
+  async lock(key: string, lockedUntil: Date, expiresAt: Date) {
+    await connectToDatabase();
+    await RateLimit.updateOne({ key }, { lockedUntil, expiresAt });
+  }
+
+  async reset(key: string) {
+    await connectToDatabase();
+    await RateLimit.deleteOne({ key });
+  }
+}
+
+function toRateLimitRecord(record: any): RateLimitRecord {
+  return {
+    failures: record.failures,
+    lockedUntil: record.lockedUntil,
+    expiresAt: record.expiresAt,
+  };
+}
+
+// Cached on global like the mongoose connection, survives dev hot reloads
+declare global {
+  // eslint-disable-next-line no-var
+  var rateLimitStore: RateLimitStore | undefined;
+}
+
+// RATE_LIMIT_STORE=memory is only safe with a single instance
+export function getRateLimitStore(): RateLimitStore {
+  if (!global.rateLimitStore) {
+    global.rateLimitStore =
+      process.env.RATE_LIMIT_STORE === "memory"
+        ? new MemoryRateLimitStore()
+        : new MongoRateLimitStore();
+  }
+
+  return global.rateLimitStore;
+}
+
+// Without a known IP every caller would share one bucket, so only the account is counted
+export function loginRules(ip: string, email: string): RateLimitRule[] {
+  const accountRule: RateLimitRule = {
+    key: `login:account:${email.toLowerCase().trim()}`,
+    policy: RATE_LIMIT_POLICIES.loginAccount,
+    resetOnSuccess: true,
+  };
+
+  if (!ip) return [accountRule];
+
+  return [
+    {
+      key: `login:ip:${ip}`,
+      policy: RATE_LIMIT_POLICIES.loginIp,
+      resetOnSuccess: false,
+    },
+    accountRule,
+  ];
+}
+
+// Keyed by whatever identifies the account at that step (userId or email)
+export function otpRules(ip: string, account: string): RateLimitRule[] {
+  if (!ip) return [otpAccountRule(account)];
+
+  return [
+    {
+      key: `otp:ip:${ip}`,
+      policy: RATE_LIMIT_POLICIES.otpIp,
+      resetOnSuccess: false,
+    },
+    otpAccountRule(account),
+  ];
+}
+
+export function otpAccountRule(account: string): RateLimitRule {
+  return {
+    key: `otp:account:${account.toLowerCase().trim()}`,
+    policy: RATE_LIMIT_POLICIES.otpAccount,
+    resetOnSuccess: true,
+  };
+}
+
+// Callers register every send on these, the limit is on volume rather than on failures
+export function smsSendRules(ip: string, userId: string): RateLimitRule[] {
+  const accountRule: RateLimitRule = {
+    key: `sms:account:${userId}`,
+    policy: RATE_LIMIT_POLICIES.smsSendAccount,
+    resetOnSuccess: false,
+  };
+
+  if (!ip) return [accountRule];
+
+  return [
+    {
+      key: `sms:ip:${ip}`,
+      policy: RATE_LIMIT_POLICIES.smsSendIp,
+      resetOnSuccess: false,
+    },
+    accountRule,
+  ];
+}
+
+// Keyed by the submitted email, so a lockout says nothing about whether the account exists
+export function passwordResetRules(ip: string, email: string): RateLimitRule[] {
+  const accountRule: RateLimitRule = {
+    key: `password-reset:account:${email.toLowerCase().trim()}`,
+    policy: RATE_LIMIT_POLICIES.passwordResetAccount,
+    resetOnSuccess: false,
+  };
+
+  if (!ip) return [accountRule];
+
+  return [
+    {
+      key: `password-reset:ip:${ip}`,
+      policy: RATE_LIMIT_POLICIES.passwordResetIp,
+      resetOnSuccess: false,
+    },
+    accountRule,
+  ];
+}
+
+export async function assertNotRateLimited(rules: RateLimitRule[]) {
+  const store = getRateLimitStore();
+  let retryAfter = 0;
+
+  for (const rule of rules) {
+    const record = await store.get(rule.key);
+    const remaining = record?.lockedUntil
+      ? record.lockedUntil.getTime() - Date.now()
+      : 0;
+
+    retryAfter = Math.max(retryAfter, Math.ceil(remaining / 1000));
+  }
+
+  if (retryAfter > 0) {
+    throw new TooManyRequestsError(
+      "Too many failed attempts, try again later",
+      retryAfter
+    );
+  }
+}
+
+export async function registerFailure(rules: RateLimitRule[]) {
+  const store = getRateLimitStore();
+
+  for (const { key, policy } of rules) {
+    const record = await store.increment(key, policy.windowMs);
+    if (record.failures < policy.maxFailures) continue;
+
+    // NOTE: Exponential backoff, every failure past the limit doubles the lockout.
+    const lockoutMs = Math.min(
+      policy.baseLockoutMs * 2 ** (record.failures - policy.maxFailures),
+      policy.maxLockoutMs
+    );
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+
+    // Keep the counter alive past the lockout so the next failure escalates
+    await store.lock(
+      key,
+      lockedUntil,
+      new Date(lockedUntil.getTime() + policy.windowMs)
+    );
+  }
+}
+
+export async function clearFailures(rules: RateLimitRule[]) {
+  const store = getRateLimitStore();
+
+  for (const rule of rules) {
+    if (rule.resetOnSuccess) {
+      await store.reset(rule.key);
+    }
+  }
+}
+
+// Runs one attempt under the given rules, failures are counted unless the error is a throttle itself
+export async function withRateLimit<T>(
+  rules: RateLimitRule[],
+  attempt: () => Promise<T>,
+  isSuccess: (result: T) => boolean = () => true
+): Promise<T> {
+  await assertNotRateLimited(rules);
+
+  let result: T;
+  try {
+    result = await attempt();
+  } catch (error) {
+    if (!(error instanceof TooManyRequestsError)) {
+      await registerFailure(rules);
+    }
+    throw error;
+  }
+
+  if (isSuccess(result)) {
+    await clearFailures(rules);
+  } else {
+    await registerFailure(rules);
+  }
+
+  return result;
+}
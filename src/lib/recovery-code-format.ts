@@ -0,0 +1,120 @@
+import crypto from "crypto";
+
+// NOTE: Server only. No 0/o, 1/l/i, codes are read off paper and typed back by hand.
+export const RECOVERY_CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+
+export interface RecoveryCodeFormat {
+  count: number;
+  groups: number;
+  groupLength: number;
+  separator: string;
+}
+
+// 3 groups of 4 from 31 symbols is about 59 bits per code
+const DEFAULT_FORMAT: RecoveryCodeFormat = {
+  count: 16,
+  groups: 3,
+  groupLength: 4,
+  separator: "-",
+};
+
+// About 49 bits, shorter codes are within reach of the rate limits and the hint gives away too much of them
+export const MIN_RECOVERY_CODE_LENGTH = 10;
+
+export function getRecoveryCodeFormat(): RecoveryCodeFormat {
+  const groups = readInteger(
+    "RECOVERY_CODE_GROUPS",
+    1,
+    6,
+    DEFAULT_FORMAT.groups
+  );
+  const groupLength = readInteger(
+    "RECOVERY_CODE_GROUP_LENGTH",
+    2,
+    10,
+    DEFAULT_FORMAT.groupLength
+  );
+
+  // Each value may be fine on its own, a combination too short as a whole falls back to the default shape
+  const tooShort = groups * groupLength < MIN_RECOVERY_CODE_LENGTH;
+
+  return {
+    count: readInteger("RECOVERY_CODES_COUNT", 1, 50, DEFAULT_FORMAT.count),
+    groups: tooShort ? DEFAULT_FORMAT.groups : groups,
+    groupLength: tooShort ? DEFAULT_FORMAT.groupLength : groupLength,
+    separator: readSeparator(),
+  };
+}
+
+export function generateRecoveryCodes(
+  format: RecoveryCodeFormat = getRecoveryCodeFormat()
+): string[] {
+  const codes = new Set<string>();
+
+  // A Set keeps the batch free of duplicates, however unlikely they are
+  while (codes.size < format.count) {
+    codes.add(generateRecoveryCode(format));
+  }
+
+  return Array.from(codes);
+}
+
+function generateRecoveryCode(format: RecoveryCodeFormat): string {
+  const groups = [];
+
+  for (let group = 0; group < format.groups; group++) {
+    let chars = "";
+    for (let i = 0; i < format.groupLength; i++) {
+      chars += RECOVERY_CODE_ALPHABET[
+        crypto.randomInt(RECOVERY_CODE_ALPHABET.length)
+      ];
+    }
+    groups.push(chars);
+  }
+
+  return groups.join(format.separator);
+}
+
+// Case, dashes and spaces are not part of the code, "AB3D k9mn-X7PQ" equals "ab3d-k9mn-x7pq"
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function maskRecoveryCode(
+  hint: string,
+  format: RecoveryCodeFormat = getRecoveryCodeFormat()
+): string {
+  const masked = "•".repeat(
+    Math.max(format.groups * format.groupLength - hint.length, 0)
+  ) + hint;
+
+  const groups = [];
+  for (let i = 0; i < masked.length; i += format.groupLength) {
+    groups.push(masked.slice(i, i + format.groupLength));
+  }
+
+  return groups.join(format.separator);
+}
+
+function readInteger(
+  name: string,
+  min: number,
+  max: number,
+  fallback: number
+): number {
+  const value = Number(process.env[name]);
+
+  return Number.isInteger(value) && value >= min && value <= max
+    ? value
+    : fallback;
+}
+
+// Any single non-alphanumeric character, or none at all
+function readSeparator(): string {
+  const separator = process.env.RECOVERY_CODE_SEPARATOR;
+  if (separator === undefined) return DEFAULT_FORMAT.separator;
+
+  return /^[^a-z0-9]?$/i.test(separator)
+    ? separator
+    : DEFAULT_FORMAT.separator;
+}
@@ -0,0 +1,52 @@
+import crypto from "crypto";
+import {
+  MIN_RECOVERY_CODE_LENGTH,
+  normalizeRecoveryCode,
+} from "./recovery-code-format";
+
+// NOTE: Server only. Codes are stored as HMAC-SHA256 digests, the plaintext is returned once at generation.
+const HINT_LENGTH = 2;
+
+function getHmacKey(): string {
+  const key = process.env.RECOVERY_CODE_HMAC_KEY;
+  if (!key) {
+    throw new Error("Missing RECOVERY_CODE_HMAC_KEY");
+  }
+  return key;
+}
+
+function hmac(value: string): Buffer {
+  return crypto.createHmac("sha256", getHmacKey()).update(value).digest();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return hmac(normalizeRecoveryCode(code)).toString("hex");
+}
+
+export function recoveryCodeMatches(
+  code: string,
+  codeHash: string | null | undefined
+): boolean {
+  // Records not yet migrated by `npm run recovery-codes:hash` have no digest and never match
+  if (!codeHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(codeHash, "hex");
+  const actual = hmac(normalizeRecoveryCode(code));
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
+
+// The last characters let users tell codes apart without the rest being recoverable
+export function recoveryCodeHint(code: string): string {
+  const normalized = normalizeRecoveryCode(code);
+
+  // Codes from before the minimum length was enforced are listed fully masked
+  return normalized.length >= MIN_RECOVERY_CODE_LENGTH
+    ? normalized.slice(-HINT_LENGTH)
+    : "";
+}
@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import { renderTextPdf } from "./pdf";
+
+// NOTE: Server only. Renders the downloadable recovery kit for a freshly generated batch.
+export const RECOVERY_KIT_FORMATS = ["pdf", "csv", "json"] as const;
+export type RecoveryKitFormat = (typeof RECOVERY_KIT_FORMATS)[number];
+
+export const MIN_RECOVERY_KIT_PASSPHRASE_LENGTH = 12;
+
+// OpenSSL `enc -pbkdf2` parameters, so the file opens without this app
+const PBKDF2_ITERATIONS = 600000;
+const PBKDF2_DIGEST = "sha256";
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+export interface RecoveryKit {
+  issuer: string;
+  account: string;
+  batchId: string;
+  generatedAt: Date;
+  codes: string[];
+}
+
+export interface RenderedRecoveryKit {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const INSTRUCTIONS = [
+  "Each code can be used once, in place of your authenticator app.",
+  "Sign in with your email and password, then choose",
+  '"Use a recovery code instead" on the two-factor step.',
+  "Keep this kit somewhere safe and offline, anyone holding it can",
+  "pass your second factor.",
+  "Generating new codes invalidates every code in this kit.",
+];
+
+export function renderRecoveryKit(
+  kit: RecoveryKit,
+  format: RecoveryKitFormat
+): RenderedRecoveryKit {
+  const basename = `recovery-codes-${kit.batchId.slice(0, 8)}`;
+
+  switch (format) {
+    case "json":
+      return {
+        body: Buffer.from(
+          JSON.stringify(
+            {
+              issuer: kit.issuer,
+              account: kit.account,
+              batchId: kit.batchId,
+              generatedAt: kit.generatedAt.toISOString(),
+              instructions: INSTRUCTIONS.join(" "),
+              codes: kit.codes,
+            },
+            null,
+            2
+          )
+        ),
+        contentType: "application/json",
+        filename: `${basename}.json`,
+      };
+    case "csv":
+      return {
+        body: Buffer.from(renderCsv(kit)),
+        contentType: "text/csv",
+        filename: `${basename}.csv`,
+      };
+    case "pdf":
+      return {
+        body: renderPdf(kit),
+        contentType: "application/pdf",
+        filename: `${basename}.pdf`,
+      };
+  }
+}
+
+// One row per code, every row carries the kit context so it survives spreadsheet sorting
+function renderCsv(kit: RecoveryKit): string {
+  const header = [
+    "code",
+    "account",
+    "issuer",
+    "batch_id",
+    "generated_at",
+    "instructions",
+  ];
+  const rows = kit.codes.map((code) => [
+    code,
+    kit.account,
+    kit.issuer,
+    kit.batchId,
+    kit.generatedAt.toISOString(),
+    INSTRUCTIONS.join(" "),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n");
+}
+
+function escapeCsvField(value: string): string {
+  // Leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function renderPdf(kit: RecoveryKit): Buffer {
+  const half = Math.ceil(kit.codes.length / 2);
+
+  return renderTextPdf([
+    { text: `${kit.issuer} recovery codes`, size: 20, bold: true },
+    { text: `Account: ${kit.account}`, gap: 16 },
+    { text: `Generated: ${kit.generatedAt.toUTCString()}` },
+    { text: `Batch: ${kit.batchId}` },
+    ...kit.codes.slice(0, half).map((code, index) => ({
+      text: `${index + 1}.  ${code}`,
+      columns: kit.codes[index + half]
+        ? [`${index + half + 1}.  ${kit.codes[index + half]}`]
+        : [],
+      size: 13,
+      bold: true,
+      gap: index === 0 ? 20 : 0,
+    })),
+    { text: "How to use these codes", size: 13, bold: true, gap: 24 },
+    ...INSTRUCTIONS.map((text, index) => ({
+      text,
+      size: 10,
+      gap: index === 0 ? 4 : 0,
+    })),
+  ]);
+}
+
+// NOTE: OpenSSL "Salted__" format, decrypt with
+// openssl enc -d -aes-256-cbc -pbkdf2 -iter 600000 -md sha256 -in <file>.enc -out <file>
+export async function encryptRecoveryKit(
+  rendered: RenderedRecoveryKit,
+  passphrase: string
+): Promise<RenderedRecoveryKit> {
+  const salt = crypto.randomBytes(8);
+  // Async on purpose, 600k iterations would block the event loop
+  const derived = await pbkdf2(
+    passphrase,
+    salt,
+    PBKDF2_ITERATIONS,
+    48,
+    PBKDF2_DIGEST
+  );
+  const cipher = crypto.createCipheriv(
+    "aes-256-cbc",
+    derived.subarray(0, 32),
+    derived.subarray(32)
+  );
+
+  return {
+    body: Buffer.concat([
+      Buffer.from("Salted__"),
+      salt,
+      cipher.update(rendered.body),
+      cipher.final(),
+    ]),
+    contentType: "application/octet-stream",
+    filename: `${rendered.filename}.enc`,
+  };
+}
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+
+// NOTE: Server only. keyVersion 0 marks a legacy plaintext value written before encryption existed.
+export const PLAINTEXT_KEY_VERSION = 0;
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+export interface SealedSecret {
+  secret: string;
+  keyVersion: number;
+}
+
+// TOTP_ENCRYPTION_KEYS="1:<base64 key>,2:<base64 key>", each key 32 bytes
+function getKeyring(): Map<number, Buffer> {
+  const keyring = new Map<number, Buffer>();
+  const raw = process.env.TOTP_ENCRYPTION_KEYS || "";
+
+  raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const [version, encodedKey] = entry.split(":");
+      const key = Buffer.from(encodedKey || "", "base64");
+
+      if (!/^\d+$/.test(version) || Number(version) === PLAINTEXT_KEY_VERSION) {
+        throw new Error(`Invalid TOTP encryption key version "${version}"`);
+      }
+      if (key.length !== 32) {
+        throw new Error(`TOTP encryption key ${version} must be 32 bytes`);
+      }
+
+      keyring.set(Number(version), key);
+    });
+
+  return keyring;
+}
+
+// Defaults to the newest key, set TOTP_ENCRYPTION_KEY_VERSION to stage a rotation
+export function getCurrentKeyVersion(): number {
+  const keyring = getKeyring();
+
+  if (keyring.size === 0) {
+    throw new Error("Missing TOTP_ENCRYPTION_KEYS");
+  }
+
+  const configured = Number(process.env.TOTP_ENCRYPTION_KEY_VERSION);
+  if (configured) {
+    if (!keyring.has(configured)) {
+      throw new Error(`TOTP encryption key ${configured} is not configured`);
+    }
+    return configured;
+  }
+
+  return Math.max(...Array.from(keyring.keys()));
+}
+
+export function sealSecret(plaintext: string): SealedSecret {
+  const keyVersion = getCurrentKeyVersion();
+  const key = getKeyring().get(keyVersion) as Buffer;
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return {
+    secret: [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString("base64"))
+      .join("."),
+    keyVersion,
+  };
+}
+
+export function openSecret(sealed: string, keyVersion?: number | null): string {
+  if (!keyVersion) return sealed;
+
+  const key = getKeyring().get(keyVersion);
+  if (!key) {
+    throw new Error(`TOTP encryption key ${keyVersion} is not configured`);
+  }
+
+  const [iv, authTag, ciphertext] = sealed
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+
+  // GCM authenticates the ciphertext, a tampered value throws here
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+}
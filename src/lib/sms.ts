@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+// NOTE: Server only. Providers are picked by SMS_PROVIDER, mock and file never reach a real phone.
+export interface SmsMessage {
+  // E.164, e.g. +14155550123
+  to: string;
+  text: string;
+}
+
+export interface SmsProvider {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Development default, keeps what was sent in memory and in the server log
+export class MockSmsProvider implements SmsProvider {
+  sent: SmsMessage[] = [];
+
+  async send(message: SmsMessage) {
+    this.sent.push(message);
+    console.log(`[sms] to: ${message.to}\n${message.text}`);
+  }
+}
+
+// One JSON file per message, scripts and local tests read codes back from the outbox
+export class FileSmsProvider implements SmsProvider {
+  constructor(private dir: string) {}
+
+  async send(message: SmsMessage) {
+    await mkdir(this.dir, { recursive: true });
+
+    const sentAt = new Date();
+    const fileName = `${sentAt.getTime()}-${crypto
+      .randomBytes(4)
+      .toString("hex")}.json`;
+
+    await writeFile(
+      path.join(this.dir, fileName),
+      JSON.stringify({ ...message, sentAt }, null, 2)
+    );
+  }
+}
+
+// Plain REST call, no SDK needed for a single endpoint
+export class TwilioSmsProvider implements SmsProvider {
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string
+  ) {}
+
+  async send(message: SmsMessage) {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(
+            `${this.accountSid}:${this.authToken}`
+          ).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          To: message.to,
+          From: this.from,
+          Body: message.text,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`SMS delivery failed with status ${response.status}`);
+    }
+  }
+}
+
+// Cached on global like the mail transport, survives dev hot reloads
+declare global {
+  // eslint-disable-next-line no-var
+  var smsProvider: SmsProvider | undefined;
+}
+
+export function getSmsProvider(): SmsProvider {
+  if (!global.smsProvider) {
+    global.smsProvider = createSmsProvider();
+  }
+
+  return global.smsProvider;
+}
+
+function createSmsProvider(): SmsProvider {
+  switch (process.env.SMS_PROVIDER) {
+    case "twilio": {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM } =
+        process.env;
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+        throw new Error(
+          "Missing TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM"
+        );
+      }
+      return new TwilioSmsProvider(
+        TWILIO_ACCOUNT_SID,
+        TWILIO_AUTH_TOKEN,
+        TWILIO_FROM
+      );
+    }
+    case "file":
+      return new FileSmsProvider(process.env.SMS_OUTBOX_DIR || ".outbox/sms");
+    case "mock":
+      return new MockSmsProvider();
+    default:
+      // Codes must not land in production logs by accident
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("Missing SMS_PROVIDER");
+      }
+      return new MockSmsProvider();
+  }
+}
+
+export function sendSms(message: SmsMessage): Promise<void> {
+  return getSmsProvider().send(message);
+}
@@ -0,0 +1,80 @@
+import { connectToDatabase } from "./database/connection/mongoose";
+import Session from "./database/models/session.model";
+import RevokedToken from "./database/models/revoked-token.model";
+import { verifySignedToken } from "./tokens";
+
+// NOTE: Server only, not a server action module. Kept apart from ./actions/session and read-only, every authenticated request goes through validateToken.
+interface IValidatedToken {
+  userId: string;
+  sid?: string;
+  purpose: string;
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+export async function isSessionActive(
+  sessionId: string,
+  userId: string
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const session = await Session.exists({
+    _id: sessionId,
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+
+  return !!session;
+}
+
+export async function isTokenRevoked(
+  jti: string,
+  userId: string,
+  issuedAt: number
+): Promise<boolean> {
+  await connectToDatabase();
+
+  const revoked = await RevokedToken.exists({
+    $or: [
+      { jti },
+      { userId, issuedBefore: { $gt: new Date(issuedAt * 1000) } },
+    ],
+  });
+
+  return !!revoked;
+}
+
+export const validateToken = async (
+  token: string | null
+): Promise<any> => {
+  if (!token) {
+    throw new Error("Invalid Token");
+  }
+  try {
+    const decodedToken: IValidatedToken = verifySignedToken(token, "access");
+
+    // A valid signature is not enough, the session behind the token must still be live
+    if (
+      !decodedToken.sid ||
+      !(await isSessionActive(decodedToken.sid, decodedToken.userId))
+    ) {
+      throw new Error("Session has been revoked");
+    }
+
+    if (
+      await isTokenRevoked(
+        decodedToken.jti,
+        decodedToken.userId,
+        decodedToken.iat
+      )
+    ) {
+      throw new Error("Token has been revoked");
+    }
+
+    return decodedToken;
+  } catch (err) {
+    throw new Error((err as any)?.message);
+  }
+};
@@ -0,0 +1,149 @@
+import jwt from "jsonwebtoken";
+import { v4 as uuidv4 } from "uuid";
+
+export type TokenPurpose =
+  | "access"
+  | "refresh"
+  | "mfa_challenge"
+  | "trusted_device";
+
+export interface ISignedTokenPayload {
+  userId: string;
+  sid?: string;
+  // Trusted device tokens only, the TrustedDevice record backing the token
+  did?: string;
+  // Refresh tokens only, the rotating secret checked against the Session record
+  rt?: string;
+  purpose: TokenPurpose;
+  jti: string;
+  iat: number;
+  exp: number;
+}
+
+// NOTE: Access tokens are short-lived, long-lived sessions go through /api/token/refresh.
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+// NOTE: A challenge token only proves the password step, keep it short-lived.
+const MFA_CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60;
+
+const DEFAULT_TRUSTED_DEVICE_DAYS = 30;
+
+// No token outlives this, revocation entries can be dropped after it.
+// Refresh and trusted device tokens are left out, they are revoked through their Session or TrustedDevice record.
+export const MAX_TOKEN_TTL_SECONDS = Math.max(
+  ACCESS_TOKEN_TTL_SECONDS,
+  MFA_CHALLENGE_TOKEN_TTL_SECONDS
+);
+
+export function signAccessToken(userId: string, sessionId: string): string {
+  return jwt.sign(
+    { userId, sid: sessionId, purpose: "access" },
+    process.env.JWT_SECRET!,
+    {
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      jwtid: uuidv4(),
+    }
+  );
+}
+
+// NOTE: Signed so the middleware can tell a live session from any cookie, the secret inside is what the server rotates.
+export function signRefreshToken(
+  userId: string,
+  sessionId: string,
+  secret: string,
+  expiresAt: Date
+): string {
+  return jwt.sign(
+    { userId, sid: sessionId, rt: secret, purpose: "refresh" },
+    process.env.JWT_SECRET!,
+    {
+      expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+      jwtid: uuidv4(),
+    }
+  );
+}
+
+export function signMfaChallengeToken(userId: string): string {
+  return jwt.sign(
+    { userId, purpose: "mfa_challenge" },
+    process.env.JWT_SECRET!,
+    {
+      expiresIn: MFA_CHALLENGE_TOKEN_TTL_SECONDS,
+      jwtid: uuidv4(),
+    }
+  );
+}
+
+// NOTE: Lets one browser skip the second factor, it is worthless without its server record.
+export function signTrustedDeviceToken(
+  userId: string,
+  deviceId: string,
+  expiresAt: Date
+): string {
+  return jwt.sign(
+    { userId, did: deviceId, purpose: "trusted_device" },
+    process.env.JWT_SECRET!,
+    {
+      expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+      jwtid: uuidv4(),
+    }
+  );
+}
+
+export function getTrustedDeviceDays(): number {
+  const days = Number(process.env.TRUSTED_DEVICE_DAYS);
+
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRUSTED_DEVICE_DAYS;
+}
+
+export function verifySignedToken(
+  token: string,
+  purpose: TokenPurpose
+): ISignedTokenPayload {
+  const payload = jwt.verify(
+    token,
+    process.env.JWT_SECRET as string
+  ) as ISignedTokenPayload;
+
+  // NOTE: Tokens are not interchangeable, a challenge token must never open a session.
+  if (payload?.purpose !== purpose || !payload?.userId || !payload?.jti) {
+    throw new Error("Invalid token purpose");
+  }
+
+  return payload;
+}
+
+export function verifyMfaChallengeToken(
+  challengeToken: string
+): ISignedTokenPayload {
+  try {
+    return verifySignedToken(challengeToken, "mfa_challenge");
+  } catch (error) {
+    throw new Error("Invalid or expired login challenge");
+  }
+}
+
+export function verifyRefreshToken(
+  refreshToken: string
+): { sessionId: string; secret: string } {
+  try {
+    const payload = verifySignedToken(refreshToken, "refresh");
+    if (!payload.sid || !payload.rt) {
+      throw new Error("Missing session");
+    }
+    return { sessionId: payload.sid, secret: payload.rt };
+  } catch (error) {
+    throw new Error("Invalid refresh token");
+  }
+}
+
+export function verifyTrustedDeviceToken(token: string): ISignedTokenPayload {
+  try {
+    const payload = verifySignedToken(token, "trusted_device");
+    if (!payload.did) {
+      throw new Error("Missing device id");
+    }
+    return payload;
+  } catch (error) {
+    throw new Error("Invalid or expired trusted device token");
+  }
+}
@@ -0,0 +1,153 @@
+import speakeasy from "speakeasy";
+
+// NOTE: Server only. Authenticator apps widely support these values, nothing else is accepted.
+export const TOTP_DIGITS = [6, 8] as const;
+export const TOTP_PERIODS = [30, 60] as const;
+export const TOTP_ALGORITHMS = ["sha1", "sha256", "sha512"] as const;
+
+// HOTP moves on a counter the token advances per code, for hardware and legacy tokens
+export const OTP_TYPES = ["totp", "hotp"] as const;
+
+export type OtpType = (typeof OTP_TYPES)[number];
+
+export type TotpDigits = (typeof TOTP_DIGITS)[number];
+export type TotpPeriod = (typeof TOTP_PERIODS)[number];
+export type TotpAlgorithm = (typeof TOTP_ALGORITHMS)[number];
+
+export interface TotpConfig {
+  digits: TotpDigits;
+  period: TotpPeriod;
+  algorithm: TotpAlgorithm;
+}
+
+// What speakeasy used before these became configurable, legacy enrollments rely on it
+export const LEGACY_TOTP_CONFIG: TotpConfig = {
+  digits: 6,
+  period: 30,
+  algorithm: "sha1",
+};
+
+export const TOTP_ISSUER = process.env.TOTP_ISSUER || "TwofaSecurityApp";
+
+// NOTE: Codes generated but never entered (button presses, app refreshes) push the token ahead of us.
+export function getHotpLookAhead(): number {
+  const window = Number(process.env.HOTP_LOOK_AHEAD);
+  return Number.isInteger(window) && window > 0 ? window : 10;
+}
+
+// Two consecutive codes prove possession, so the search can go much further than a sign-in may
+export function getHotpResyncWindow(): number {
+  const window = Number(process.env.HOTP_RESYNC_WINDOW);
+  return Number.isInteger(window) && window > 0 ? window : 100;
+}
+
+export function resolveOtpType(value: unknown): OtpType {
+  if (value === undefined) return "totp";
+
+  const type = String(value).toLowerCase();
+  if (!(OTP_TYPES as readonly string[]).includes(type)) {
+    throw new Error(`Invalid OTP type, use ${OTP_TYPES.join(" or ")}`);
+  }
+
+  return type as OtpType;
+}
+
+// Deployment defaults, a bad env value falls back instead of breaking every enrollment
+export function getDefaultTotpConfig(): TotpConfig {
+  const digits = Number(process.env.TOTP_DIGITS);
+  const period = Number(process.env.TOTP_PERIOD);
+  const algorithm = process.env.TOTP_ALGORITHM?.toLowerCase();
+
+  return {
+    digits: isTotpDigits(digits) ? digits : LEGACY_TOTP_CONFIG.digits,
+    period: isTotpPeriod(period) ? period : LEGACY_TOTP_CONFIG.period,
+    algorithm: isTotpAlgorithm(algorithm)
+      ? algorithm
+      : LEGACY_TOTP_CONFIG.algorithm,
+  };
+}
+
+// Per-enrollment choices on top of the deployment defaults, invalid values are rejected
+export function resolveTotpConfig(overrides: {
+  digits?: unknown;
+  period?: unknown;
+  algorithm?: unknown;
+} = {}): TotpConfig {
+  const config = getDefaultTotpConfig();
+
+  if (overrides.digits !== undefined) {
+    const digits = Number(overrides.digits);
+    if (!isTotpDigits(digits)) {
+      throw new Error(`Invalid TOTP digits, use ${TOTP_DIGITS.join(" or ")}`);
+    }
+    config.digits = digits;
+  }
+
+  if (overrides.period !== undefined) {
+    const period = Number(overrides.period);
+    if (!isTotpPeriod(period)) {
+      throw new Error(`Invalid TOTP period, use ${TOTP_PERIODS.join(" or ")}`);
+    }
+    config.period = period;
+  }
+
+  if (overrides.algorithm !== undefined) {
+    const algorithm = String(overrides.algorithm).toLowerCase();
+    if (!isTotpAlgorithm(algorithm)) {
+      throw new Error(
+        `Invalid TOTP algorithm, use ${TOTP_ALGORITHMS.join(", ")}`
+      );
+    }
+    config.algorithm = algorithm;
+  }
+
+  return config;
+}
+
+// Reads the stored choice, documents from before it was stored get the legacy values
+export function getTotpConfig(twofa: Partial<TotpConfig>): TotpConfig {
+  return {
+    digits: twofa.digits || LEGACY_TOTP_CONFIG.digits,
+    period: twofa.period || LEGACY_TOTP_CONFIG.period,
+    algorithm: twofa.algorithm || LEGACY_TOTP_CONFIG.algorithm,
+  };
+}
+
+// Built server side so the authenticator always gets exactly what verification uses
+export function buildOtpauthUri(
+  secret: string,
+  email: string,
+  config: TotpConfig,
+  type: OtpType = "totp",
+  // HOTP only, the counter the token starts from
+  counter = 0
+): string {
+  const uri = speakeasy.otpauthURL({
+    secret,
+    encoding: "base32",
+    // speakeasy only escapes "?" and "#" in the label
+    label: `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(email)}`,
+    issuer: TOTP_ISSUER,
+    // @types/speakeasy spells this "htop", the library itself checks for "hotp"
+    type: type as unknown as speakeasy.OtpauthURLOptions["type"],
+    digits: config.digits,
+    algorithm: config.algorithm,
+    // otpauth://hotp/ takes a counter instead of a period
+    ...(type === "hotp" ? { counter } : { period: config.period }),
+  });
+
+  // speakeasy checks the counter but never writes it, the Key URI format requires it for hotp
+  return type === "hotp" ? `${uri}&counter=${counter}` : uri;
+}
+
+function isTotpDigits(value: number): value is TotpDigits {
+  return (TOTP_DIGITS as readonly number[]).includes(value);
+}
+
+function isTotpPeriod(value: number): value is TotpPeriod {
+  return (TOTP_PERIODS as readonly number[]).includes(value);
+}
+
+function isTotpAlgorithm(value?: string): value is TotpAlgorithm {
+  return (TOTP_ALGORITHMS as readonly string[]).includes(value || "");
+}
@@ -1,18 +1,16 @@
 import { NextResponse } from "next/server";
-import jwt from "jsonwebtoken";
 import { ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 import clsx from "clsx";
-
-interface IValidatedToken {
-  userId: string;
-  iat: number;
-  exp: number;
-}
+import { isTypedError } from "./errors";
+import { ClientInfo } from "@/types";
 
 // ERROR HANDLER
 export const handleError = (error: unknown) => {
-  if (error instanceof Error) {
+  // Typed errors carry data the routes need (e.g. Retry-After), let them through untouched
+  if (isTypedError(error)) {
+    throw error;
+  } else if (error instanceof Error) {
     throw new Error(`Error: ${error.message}`);
   } else if (typeof error === "string") {
     throw new Error(error);
@@ -48,7 +46,8 @@ export const success_response = (
 export const error_response = (
   message: string = "Error",
   code = 400,
-  data: any = null
+  data: any = null,
+  headers?: HeadersInit
 ) => {
   const response = {
     meta: {
@@ -57,35 +56,107 @@ export const error_response = (
     },
     data,
   };
-  return NextResponse.json({ response }, { status: code });
+  return NextResponse.json({ response }, { status: code, headers });
 };
 
-export const validateToken = async (
-  token: string | null
-): Promise<any> => {
-  if (!token) {
-    throw new Error("Invalid Token");
-  }
-  try {
-    const decodedToken: IValidatedToken | void = jwt.verify(
-      token.split(" ")[1],
-      process.env.JWT_SECRET as string,
-      function(err, payload) {
-        //@ts-ignore
-        if (err) {
-          throw new Error(err?.message);
-        } else {
-          return payload;
-        }
-      }
-    );
-
-    return decodedToken;
-  } catch (err) {
-    throw new Error((err as any)?.message);
-  }
+export const too_many_requests_response = (
+  message: string,
+  retryAfter: number
+) => {
+  return error_response(message, 429, { retryAfter }, {
+    "Retry-After": String(retryAfter),
+  });
+};
+
+export const reauth_required_response = (
+  message: string,
+  otpDigits: number | null,
+  smsRequired = false,
+  otpDigitOptions: number[] = otpDigits ? [otpDigits] : []
+) => {
+  return error_response(message, 403, {
+    code: "REAUTH_REQUIRED",
+    otpRequired: otpDigits !== null,
+    otpDigits,
+    otpDigitOptions,
+    smsRequired,
+  });
+};
+
+// CLIENT INFO
+// Reverse proxies in front of the app, each appends the address it saw to X-Forwarded-For
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+export const getClientInfo = (req: Request): ClientInfo => {
+  return {
+    ip: getClientIp(req),
+    userAgent: req.headers.get("user-agent") || "",
+  };
+};
+
+// NOTE: Rate limits key on this, only the entries our own proxies appended can be trusted, the left of the list is the client's.
+const getClientIp = (req: Request): string => {
+  const forwardedFor = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  // Counted from the right, the nearest proxy appended the last entry
+  const forwarded = forwardedFor[forwardedFor.length - getTrustedProxyHops()];
+
+  // Next.js sets the header to the socket address when nothing forwarded the request, platforms that know better expose it as ip
+  return forwarded || (req as Request & { ip?: string }).ip || "";
+};
+
+const getTrustedProxyHops = (): number => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+
+  return Number.isInteger(hops) && hops >= 0
+    ? hops
+    : DEFAULT_TRUSTED_PROXY_HOPS;
+};
+
+// USER AGENT
+export const parseUserAgent = (
+  userAgent: string = ""
+): { browser: string; os: string } => {
+  const browserMatchers: [string, RegExp][] = [
+    ["Edge", /Edg(?:e|A|iOS)?\/(\d+)/],
+    ["Opera", /(?:OPR|Opera)\/(\d+)/],
+    ["Firefox", /(?:Firefox|FxiOS)\/(\d+)/],
+    ["Chrome", /(?:Chrome|CriOS)\/(\d+)/],
+    ["Safari", /Version\/(\d+).*Safari/],
+  ];
+  const osMatchers: [string, RegExp][] = [
+    ["Android", /Android/],
+    ["iOS", /iPhone|iPad|iPod/],
+    ["ChromeOS", /CrOS/],
+    ["Windows", /Windows/],
+    ["macOS", /Mac OS X|Macintosh/],
+    ["Linux", /Linux/],
+  ];
+
+  const browserMatch = browserMatchers.find(([, matcher]) =>
+    matcher.test(userAgent)
+  );
+  const os = osMatchers.find(([, matcher]) => matcher.test(userAgent));
+
+  return {
+    browser: browserMatch
+      ? `${browserMatch[0]} ${userAgent.match(browserMatch[1])?.[1]}`
+      : "Unknown browser",
+    os: os ? os[0] : "Unknown OS",
+  };
 };
 
+// Only same-origin paths are accepted, anything else falls back to the dashboard
+export function getSafeReturnTo(returnTo: string | null): string {
+  if (!returnTo || !returnTo.startsWith("/") || /^\/[\/\\]/.test(returnTo)) {
+    return "/home";
+  }
+  return returnTo;
+}
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
@@ -46,4 +46,63 @@ const LoginUserInputValidation = z.object({
     }),
 });
 
-export { CreateUserInputValidation, LoginUserInputValidation };
\ No newline at end of file
+const ChangePasswordInputValidation = z.object({
+  currentPassword: z.string().min(1, {
+    message: "Current password is required.",
+  }),
+  newPassword: z
+    .string()
+    .min(8, {
+      message: "Password must be at least 8 characters.",
+    })
+    .max(25, {
+      message: "Password must be at most 25 characters.",
+    }),
+});
+
+const RequestPasswordResetInputValidation = z.object({
+  email: z
+    .string()
+    .email({
+      message: "Enter a valid email",
+    })
+    .min(2, {
+      message: "email must be at least 2 characters.",
+    }),
+});
+
+const ResetPasswordInputValidation = z.object({
+  resetToken: z.string().min(1, {
+    message: "Reset link is required.",
+  }),
+  password: z
+    .string()
+    .min(8, {
+      message: "Password must be at least 8 characters.",
+    })
+    .max(25, {
+      message: "Password must be at most 25 characters.",
+    }),
+  // One of these is required once 2FA is on, the server decides
+  token: z
+    .string()
+    .regex(/^(\d{6}|\d{8})$/, {
+      message: "2FA token must be 6 or 8 digits",
+    })
+    .optional(),
+  smsCode: z
+    .string()
+    .regex(/^\d{6}$/, {
+      message: "SMS code must be 6 digits",
+    })
+    .optional(),
+  recoveryCode: z.string().min(1).optional(),
+});
+
+export {
+  CreateUserInputValidation,
+  LoginUserInputValidation,
+  ChangePasswordInputValidation,
+  RequestPasswordResetInputValidation,
+  ResetPasswordInputValidation,
+};
\ No newline at end of file
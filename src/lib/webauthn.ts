@@ -0,0 +1,162 @@
+import {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from "@simplewebauthn/server";
+import { TOTP_ISSUER } from "./totp";
+
+// NOTE: Server only. Pure ceremony helpers, every input is an argument so recorded or
+// software-authenticator responses can be verified offline without a database or a browser.
+export interface WebauthnConfig {
+  rpId: string;
+  rpName: string;
+  origins: string[];
+}
+
+// What is kept per credential, binary values as base64url
+export interface StoredWebauthnCredential {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports: string[];
+}
+
+export interface VerifiedWebauthnRegistration extends StoredWebauthnCredential {
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean;
+}
+
+// A security key answers within a minute, the stored challenge lives a little longer
+export const WEBAUTHN_TIMEOUT_MS = 60 * 1000;
+
+export function getWebauthnConfig(): WebauthnConfig {
+  return {
+    rpId: process.env.WEBAUTHN_RP_ID || "localhost",
+    rpName: process.env.WEBAUTHN_RP_NAME || TOTP_ISSUER,
+    origins: (process.env.WEBAUTHN_ORIGINS || "http://localhost:3000")
+      .split(",")
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+  };
+}
+
+export function buildRegistrationOptions(
+  config: WebauthnConfig,
+  user: { id: string; email: string },
+  existing: StoredWebauthnCredential[]
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  return generateRegistrationOptions({
+    rpName: config.rpName,
+    rpID: config.rpId,
+    userName: user.email,
+    userID: Buffer.from(user.id),
+    timeout: WEBAUTHN_TIMEOUT_MS,
+    // Used as a second factor only, there is nothing to gain from attestation
+    attestationType: "none",
+    // The same authenticator cannot be registered twice
+    excludeCredentials: existing.map(toDescriptor),
+    authenticatorSelection: {
+      residentKey: "preferred",
+      userVerification: "preferred",
+    },
+  });
+}
+
+export async function verifyRegistration(
+  config: WebauthnConfig,
+  response: RegistrationResponseJSON,
+  expectedChallenge: string
+): Promise<VerifiedWebauthnRegistration> {
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: config.origins,
+      expectedRPID: config.rpId,
+      // The password already is the first factor, presence of the key is what counts
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    throw new Error(
+      `Invalid WebAuthn registration: ${(error as Error)?.message}`
+    );
+  }
+
+  if (!verification.verified) {
+    throw new Error("Invalid WebAuthn registration");
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    verification.registrationInfo;
+
+  return {
+    credentialId: credential.id,
+    publicKey: Buffer.from(credential.publicKey).toString("base64url"),
+    counter: credential.counter,
+    transports: credential.transports || response.response.transports || [],
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+  };
+}
+
+export function buildAuthenticationOptions(
+  config: WebauthnConfig,
+  credentials: StoredWebauthnCredential[]
+): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  return generateAuthenticationOptions({
+    rpID: config.rpId,
+    timeout: WEBAUTHN_TIMEOUT_MS,
+    allowCredentials: credentials.map(toDescriptor),
+    userVerification: "preferred",
+  });
+}
+
+// Returns the authenticator's new signature counter
+export async function verifyAuthentication(
+  config: WebauthnConfig,
+  response: AuthenticationResponseJSON,
+  expectedChallenge: string,
+  credential: StoredWebauthnCredential
+): Promise<number> {
+  let verification;
+  try {
+    // Also rejects a counter that did not move forward, the sign of a cloned key
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: config.origins,
+      expectedRPID: config.rpId,
+      credential: {
+        id: credential.credentialId,
+        publicKey: Buffer.from(credential.publicKey, "base64url"),
+        counter: credential.counter,
+        transports: credential.transports as AuthenticatorTransportFuture[],
+      },
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    throw new Error(
+      `Invalid WebAuthn assertion: ${(error as Error)?.message}`
+    );
+  }
+
+  if (!verification.verified) {
+    throw new Error("Invalid WebAuthn assertion");
+  }
+
+  return verification.authenticationInfo.newCounter;
+}
+
+function toDescriptor(credential: StoredWebauthnCredential) {
+  return {
+    id: credential.credentialId,
+    transports: credential.transports as AuthenticatorTransportFuture[],
+  };
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { jwtVerify } from "jose";
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from "@/lib/cookies";
+
+// NOTE: Keep in sync with the (dashboard) and (auth) route groups.
+const DASHBOARD_ROUTES = ["/home", "/recovery-codes"];
+// /reset-password is left out, a mailed link must work whoever is signed in
+const AUTH_ROUTES = ["/", "/login", "/register", "/forgot-password"];
+
+// Signature, expiry and purpose only, revocation is checked by the API routes
+async function hasValidToken(
+  req: NextRequest,
+  cookie: string,
+  purpose: "access" | "refresh"
+): Promise<boolean> {
+  const token = req.cookies.get(cookie)?.value;
+  if (!token || !process.env.JWT_SECRET) return false;
+
+  try {
+    const { payload } = await jwtVerify(
+      token,
+      new TextEncoder().encode(process.env.JWT_SECRET),
+      { algorithms: ["HS256"] }
+    );
+
+    return payload.purpose === purpose;
+  } catch (error) {
+    return false;
+  }
+}
+
+function matches(pathname: string, routes: string[]): boolean {
+  return routes.some((route) =>
+    route === "/"
+      ? pathname === "/"
+      : pathname === route || pathname.startsWith(`${route}/`)
+  );
+}
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const authenticated = await hasValidToken(
+    req,
+    ACCESS_TOKEN_COOKIE,
+    "access"
+  );
+
+  if (matches(pathname, DASHBOARD_ROUTES) && !authenticated) {
+    // Only the access token expired, the client renews it silently through /api/token/refresh
+    if (await hasValidToken(req, REFRESH_TOKEN_COOKIE, "refresh")) {
+      return NextResponse.next();
+    }
+
+    const loginUrl = new URL("/login", req.url);
+    loginUrl.searchParams.set("returnTo", `${pathname}${search}`);
+
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (matches(pathname, AUTH_ROUTES) && authenticated) {
+    return NextResponse.redirect(new URL("/home", req.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/",
+    "/home/:path*",
+    "/recovery-codes/:path*",
+    "/login",
+    "/register",
+    "/forgot-password",
+  ],
+};
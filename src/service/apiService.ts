@@ -1,61 +1,189 @@
 import { toast } from "@/components/ui/use-toast";
+import { CSRF_HEADER, CSRF_TOKEN_COOKIE } from "@/lib/cookies";
+import { IReauthRequired } from "@/types";
 
 type RequestMethod = "GET" | "POST" | "PUT" | "DELETE";
 
 interface RequestOptions {
   method?: RequestMethod;
   body?: any;
+  // Called instead of the error toast when the route asks for a step-up
+  onReauthRequired?: (reauth: IReauthRequired) => void;
 }
 
-async function makeApiCallService<T>(
+// Endpoints that answer 401 for bad credentials rather than for an expired session
+const AUTH_ENDPOINTS = [
+  "/api/login",
+  "/api/token/refresh",
+  "/api/logout",
+  "/api/password-reset",
+];
+
+// Shared between concurrent calls so a burst of 401s rotates the refresh token only once
+let refreshPromise: Promise<boolean> | null = null;
+
+function getCsrfToken(): string | null {
+  const cookie = document.cookie
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${CSRF_TOKEN_COOKIE}=`));
+
+  return cookie
+    ? decodeURIComponent(cookie.slice(CSRF_TOKEN_COOKIE.length + 1))
+    : null;
+}
+
+function buildHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+  };
+
+  const csrfToken = getCsrfToken();
+  if (csrfToken) {
+    headers[CSRF_HEADER] = csrfToken;
+  }
+
+  return headers;
+}
+
+function refreshAccessToken(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = fetch("/api/token/refresh", {
+      method: "POST",
+      headers: buildHeaders(),
+      credentials: "same-origin",
+    })
+      .then((response) => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+
+  return refreshPromise;
+}
+
+// Returns null once the session could not be renewed and the user is sent to login
+async function sendRequest(
   url: string,
-  options: RequestOptions = {}
-): Promise<T | null> {
-  try {
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-    };
-
-    // Include Bearer token in the Authorization header if provided
-    const localStorageToken = localStorage.getItem("TOKEN");
-    if (localStorageToken) {
-      headers["Authorization"] = `Bearer ${localStorageToken}`;
-    }
+  options: RequestOptions
+): Promise<Response | null> {
+  const isAuthEndpoint = AUTH_ENDPOINTS.some((endpoint) =>
+    url.startsWith(endpoint)
+  );
 
-    const response = await fetch(url, {
+  // Session cookies are attached by the browser, only the CSRF header is added here
+  const send = () =>
+    fetch(url, {
       method: options.method || "GET",
-      headers,
+      headers: buildHeaders(),
+      credentials: "same-origin",
       body: JSON.stringify(options.body),
     });
 
-    if (!response.ok) {
-      const res = await response.json();
+  const response = await send();
 
-      if (res?.response?.meta?.message === "jwt expired") {
-        window.location.replace("/login");
-      }
+  // NOTE: Access tokens are short-lived, renew silently and replay the call once.
+  if (response.status === 401 && !isAuthEndpoint) {
+    if (await refreshAccessToken()) {
+      return send();
+    }
 
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: res?.response?.meta?.message,
-      });
+    window.location.replace("/login");
+    return null;
+  }
+
+  return response;
+}
+
+async function handleErrorResponse(
+  response: Response,
+  options: RequestOptions
+) {
+  const res = await response.json().catch(() => null);
+
+  if (
+    response.status === 403 &&
+    res?.response?.data?.code === "REAUTH_REQUIRED" &&
+    options.onReauthRequired
+  ) {
+    options.onReauthRequired(res.response.data);
+    return;
+  }
 
+  toast({
+    variant: "destructive",
+    title: "Error",
+    description: res?.response?.meta?.message,
+  });
+}
+
+function toastServiceError(error: unknown) {
+  toast({
+    title: "API Service error",
+    description: `An error occurred while making the API call: ${
+      ((error as unknown) as any)?.message
+    }`,
+  });
+}
+
+async function makeApiCallService<T>(
+  url: string,
+  options: RequestOptions = {}
+): Promise<T | null> {
+  try {
+    const response = await sendRequest(url, options);
+    if (!response) {
+      return null;
+    }
+
+    if (!response.ok) {
+      await handleErrorResponse(response, options);
       return null;
     }
 
     const data: T = await response.json();
     return data;
   } catch (error) {
-    toast({
-      title: "API Service error",
-      description: `An error occurred while making the API call: ${
-        ((error as unknown) as any)?.message
-      }`,
-    });
-
+    toastServiceError(error);
     return null;
   }
 }
 
-export default makeApiCallService;
\ No newline at end of file
+// Saves a file answer under the name from Content-Disposition, returns whether it worked
+export async function downloadFileService(
+  url: string,
+  options: RequestOptions = {}
+): Promise<boolean> {
+  try {
+    const response = await sendRequest(url, options);
+    if (!response) {
+      return false;
+    }
+
+    if (!response.ok) {
+      await handleErrorResponse(response, options);
+      return false;
+    }
+
+    const filename =
+      response.headers
+        .get("Content-Disposition")
+        ?.match(/filename="([^"]+)"/)?.[1] || "download";
+
+    const element = document.createElement("a");
+    element.href = URL.createObjectURL(await response.blob());
+    element.download = filename;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+    URL.revokeObjectURL(element.href);
+
+    return true;
+  } catch (error) {
+    toastServiceError(error);
+    return false;
+  }
+}
+
+export default makeApiCallService;
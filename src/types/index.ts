@@ -48,9 +48,17 @@ export interface IUserProfileResponseData {
   updated_at: Date;
 }
 
+// Second factors the user can complete a sign-in challenge with
+export type MfaMethod = "totp" | "webauthn" | "email" | "sms";
+
 interface LoginUserResponseData {
-  userId: string;
-  token: string;
+  mfaRequired?: boolean;
+  challengeToken?: string;
+  otpDigits?: number;
+  // Every length enrolled, otpDigits is the one of the authenticator used last
+  otpDigitOptions?: number[];
+  mfaMethods?: MfaMethod[];
+  trustDeviceDays?: number;
 }
 
 interface CreateUserResponseData {
@@ -73,6 +81,25 @@ export type CreateUserParams = {
   password: string;
 };
 
+export type ClientInfo = {
+  ip: string;
+  userAgent: string;
+};
+
+export type LoginResult = {
+  token?: string;
+  refreshToken?: string;
+  mfaRequired?: boolean;
+  challengeToken?: string;
+  otpDigits?: number;
+  otpDigitOptions?: number[];
+  mfaMethods?: MfaMethod[];
+  // How long "remember this device" skips the second factor
+  trustDeviceDays?: number;
+  // Set once the user asked to remember the device, travels in a cookie only
+  trustedDevice?: { token: string; expiresAt: Date };
+};
+
 export type UpdateUserParams = {
   full_name: string;
   email: string;
@@ -83,7 +110,12 @@ export interface IRecoveryCode {
   _id?: string;
   userId?: string;
   code?: string;
+  batchId?: string | null;
   active?: boolean;
+  usedAt?: Date | null;
+  usedIp?: string | null;
+  usedBrowser?: string;
+  usedOs?: string;
   __v?: number;
   createdAt?: Date;
   updatedAt?: Date;
@@ -92,13 +124,219 @@ export interface IRecoveryCode {
 export interface ITwoFa {
   _id?: string;
   userId?: string;
+  name?: string;
   secret?: string;
   status?: boolean;
+  digits?: number;
+  period?: number;
+  algorithm?: string;
+  lastUsedAt?: Date | null;
   __v?: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+export interface IAuthenticator {
+  _id: string;
+  name: string;
+  type: "totp" | "hotp";
+  digits: number;
+  period: number;
+  algorithm: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface IAuthenticatorsResponse {
+  response: {
+    meta: Meta;
+    data: IAuthenticator[];
+  };
+}
+
+export interface IEmailOtpStatus {
+  enabled: boolean;
+}
+
+export interface IEmailOtpStatusResponse {
+  response: {
+    meta: Meta;
+    data: IEmailOtpStatus;
+  };
+}
+
+// Where an email or SMS code was just sent to, masked
+export interface IOtpSentResponse {
+  response: {
+    meta: Meta;
+    data: { sentTo: string };
+  };
+}
+
+// The number is masked, the full one never leaves the server
+export interface IPhoneFactor {
+  phoneNumber: string;
+  status: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  lastFactor: boolean;
+}
+
+export interface IPhoneFactorResponse {
+  response: {
+    meta: Meta;
+    data: IPhoneFactor | null;
+  };
+}
+
+export interface IWebauthnCredential {
+  _id: string;
+  name: string;
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface IWebauthnCredentialsResponse {
+  response: {
+    meta: Meta;
+    data: IWebauthnCredential[];
+  };
+}
+
+// Ceremony options, handed to @simplewebauthn/browser as they are
+export interface IWebauthnOptionsResponse<T> {
+  response: {
+    meta: Meta;
+    data: T;
+  };
+}
+
+export interface ITwoFaSetup {
+  description: string;
+  secretKey: string;
+  otpauthUri: string;
+  digits: number;
+  // Meaningless for HOTP, which moves on a counter instead
+  period: number;
+  algorithm: string;
+  type: "totp" | "hotp";
+}
+
+export interface ITwoFaSetupResponse {
+  response: {
+    meta: Meta;
+    data: ITwoFaSetup;
+  };
+}
+
+export interface INotification {
+  _id: string;
+  type: string;
+  message: string;
+  createdAt: Date;
+}
+
+export interface INotificationsResponse {
+  response: {
+    meta: Meta;
+    data: INotification[];
+  };
+}
+
+export interface IRecoveryCodeStatus {
+  total: number;
+  remaining: number;
+  threshold: number;
+  low: boolean;
+  regenerationRequired: boolean;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+}
+
+export interface IRecoveryCodeStatusResponse {
+  response: {
+    meta: Meta;
+    data: IRecoveryCodeStatus;
+  };
+}
+
+// Data of the 403 returned by routes that need a recent step-up
+export interface IReauthRequired {
+  code: "REAUTH_REQUIRED";
+  otpRequired: boolean;
+  otpDigits: number | null;
+  otpDigitOptions: number[];
+  // No authenticator app, a code texted to the enrolled phone stands in for it
+  smsRequired: boolean;
+}
+
+export interface IReauthResponse {
+  response: {
+    meta: Meta;
+    data: { stepUpExpiresAt: Date };
+  };
+}
+
+export interface ISession {
+  _id: string;
+  browser: string;
+  os: string;
+  ip: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+export interface ISessionsResponse {
+  response: {
+    meta: Meta;
+    data: ISession[];
+  };
+}
+
+export interface IPasswordResetChallenge {
+  // True when the account has any second factor, the form then asks for a code
+  otpRequired: boolean;
+  // Authenticator code length, null without an authenticator
+  otpDigits: number | null;
+  otpDigitOptions: number[];
+  smsAvailable: boolean;
+}
+
+export interface IPasswordResetChallengeResponse {
+  response: {
+    meta: Meta;
+    data: IPasswordResetChallenge;
+  };
+}
+
+export interface ITrustedDevice {
+  _id: string;
+  browser: string;
+  os: string;
+  ip: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+export interface ITrustedDevicesResponse {
+  response: {
+    meta: Meta;
+    data: ITrustedDevice[];
+  };
+}
+
+export interface IRecoveryCodesResponse {
+  response: {
+    meta: Meta;
+    data: IRecoveryCode[];
+  };
+}
+
 export interface IRecoveryCodeResponse {
   response: {
     meta: Meta;